@@ -3,6 +3,8 @@ module.exports = {
       {
         name: 'nodejs-simple-socketio-chat-server',
         script: './dist/index.js',
+        // Longer than SHUTDOWN_TIMEOUT, so pending database writes are flushed before the process is killed
+        kill_timeout: 15000,
       },
     ],
   };
\ No newline at end of file
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE `Message` (
+    `messageId` INTEGER NOT NULL AUTO_INCREMENT,
+    `channel` VARCHAR(191) NOT NULL,
+    `groupId` VARCHAR(191) NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `userId2` VARCHAR(191) NULL,
+    `msg` TEXT NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `Message_groupId_messageId_idx`(`groupId`, `messageId`),
+    INDEX `Message_userId_userId2_messageId_idx`(`userId`, `userId2`, `messageId`),
+    PRIMARY KEY (`messageId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
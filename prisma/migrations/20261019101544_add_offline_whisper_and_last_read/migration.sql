@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE `Message` ADD COLUMN `delivered` BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateIndex
+CREATE INDEX `Message_userId2_delivered_idx` ON `Message`(`userId2`, `delivered`);
+
+-- CreateTable
+CREATE TABLE `UserLastRead` (
+    `userId` VARCHAR(191) NOT NULL,
+    `channel` VARCHAR(191) NOT NULL,
+    `targetId` VARCHAR(191) NOT NULL,
+    `lastMessageId` INTEGER NOT NULL,
+
+    PRIMARY KEY (`userId`, `channel`, `targetId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
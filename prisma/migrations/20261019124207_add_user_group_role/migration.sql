@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `UserGroup` ADD COLUMN `role` INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `WebhookDelivery` (
+    `deliveryId` INTEGER NOT NULL AUTO_INCREMENT,
+    `url` TEXT NOT NULL,
+    `event` VARCHAR(191) NOT NULL,
+    `payload` TEXT NOT NULL,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `lastError` TEXT NULL,
+    `nextAttemptAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `deliveredAt` DATETIME(3) NULL,
+    `failedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `WebhookDelivery_deliveredAt_failedAt_nextAttemptAt_idx`(`deliveredAt`, `failedAt`, `nextAttemptAt`),
+    PRIMARY KEY (`deliveryId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
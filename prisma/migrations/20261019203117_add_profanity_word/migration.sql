@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE `Group` ADD COLUMN `profanityFilter` VARCHAR(191) NOT NULL DEFAULT 'censor';
+
+-- CreateTable
+CREATE TABLE `ProfanityWord` (
+    `locale` VARCHAR(191) NOT NULL,
+    `word` VARCHAR(191) NOT NULL,
+    `allowed` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`locale`, `word`, `allowed`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE `Message` ADD COLUMN `rawMsg` TEXT NULL;
+
+-- CreateIndex
+CREATE INDEX `Message_channel_messageId_idx` ON `Message`(`channel`, `messageId`);
+
+-- CreateTable
+CREATE TABLE `Report` (
+    `reportId` INTEGER NOT NULL AUTO_INCREMENT,
+    `reporterId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `messageId` INTEGER NOT NULL,
+    `channel` VARCHAR(191) NOT NULL,
+    `groupId` VARCHAR(191) NULL,
+    `msg` TEXT NOT NULL,
+    `context` TEXT NOT NULL,
+    `reason` TEXT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'open',
+    `action` VARCHAR(191) NULL,
+    `note` TEXT NULL,
+    `resolvedBy` VARCHAR(191) NULL,
+    `resolvedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `Report_reporterId_messageId_key`(`reporterId`, `messageId`),
+    INDEX `Report_status_reportId_idx`(`status`, `reportId`),
+    INDEX `Report_userId_reportId_idx`(`userId`, `reportId`),
+    PRIMARY KEY (`reportId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE `Channel` (
+    `channelId` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `scope` VARCHAR(191) NOT NULL DEFAULT 'members',
+    `postPermission` VARCHAR(191) NOT NULL DEFAULT 'everyone',
+    `slowMode` INTEGER NOT NULL DEFAULT 0,
+    `maxMembers` INTEGER NOT NULL DEFAULT 0,
+    `retainHistory` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`channelId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ChannelMember` (
+    `channelId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `joinedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ChannelMember_userId_idx`(`userId`),
+    PRIMARY KEY (`channelId`, `userId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
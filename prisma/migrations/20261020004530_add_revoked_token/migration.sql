@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE `User` ADD COLUMN `tokensRevokedAt` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `RevokedToken` (
+    `tokenId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `RevokedToken_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`tokenId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE `UserGroupInvitation` ADD COLUMN `inviterId` VARCHAR(191) NULL,
+    ADD COLUMN `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    ADD COLUMN `expiresAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `UserGroupInvitation_groupId_idx` ON `UserGroupInvitation`(`groupId`);
+
+-- CreateIndex
+CREATE INDEX `UserGroupInvitation_expiresAt_idx` ON `UserGroupInvitation`(`expiresAt`);
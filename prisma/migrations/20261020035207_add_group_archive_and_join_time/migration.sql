@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE `Group` ADD COLUMN `archivedAt` DATETIME(3) NULL;
+
+-- AlterTable
+ALTER TABLE `UserGroup` ADD COLUMN `joinedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3);
+
+-- Existing members joined before their first message of the group, members who never sent one keep the migration time
+UPDATE `UserGroup` INNER JOIN (
+    SELECT `groupId`, `userId`, MIN(`createdAt`) AS `firstMessageAt` FROM `Message` WHERE `groupId` IS NOT NULL GROUP BY `groupId`, `userId`
+) AS `FirstMessage` ON `FirstMessage`.`groupId` = `UserGroup`.`groupId` AND `FirstMessage`.`userId` = `UserGroup`.`userId`
+SET `UserGroup`.`joinedAt` = `FirstMessage`.`firstMessageAt`;
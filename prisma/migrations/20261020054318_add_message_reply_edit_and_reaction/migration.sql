@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE `Message` ADD COLUMN `replyToId` INTEGER NULL,
+    ADD COLUMN `editedAt` DATETIME(3) NULL,
+    ADD COLUMN `deletedAt` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `MessageReaction` (
+    `messageId` INTEGER NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `emoji` VARCHAR(191) COLLATE utf8mb4_bin NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`messageId`, `userId`, `emoji`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,130 @@
+import crypto from 'crypto'
+import { nanoid } from 'nanoid'
+
+export type TokenType = "resume"
+
+// Claims of JWT (HS256) which is issued by `/add-user`
+export interface ITokenPayload {
+    // Token ID, used to revoke the token
+    jti: string
+    // User ID
+    sub: string
+    name: string
+    locale?: string
+    // Issued at and expires at, in seconds
+    iat: number
+    exp: number
+    // Not set for tokens from `/add-user`
+    typ?: TokenType
+    // Resume tokens only, ID of the token which the session was started by
+    sid?: string
+}
+
+export type TokenError = "invalid" | "expired"
+
+export interface ITokenVerifyResult {
+    payload?: ITokenPayload
+    error?: TokenError
+}
+
+function EncodeJson(data: any) {
+    return Buffer.from(JSON.stringify(data)).toString("base64url")
+}
+
+function DecodeJson(text: string) {
+    try {
+        return JSON.parse(Buffer.from(text, "base64url").toString())
+    } catch {
+        return null
+    }
+}
+
+// Key ID is included in tokens, so they can be verified by the key which signed them after keys were rotated
+function GetKeyId(secretKey: string) {
+    return crypto.createHash("sha256").update(secretKey).digest("hex").substring(0, 8)
+}
+
+function Sign(content: string, secretKey: string) {
+    return crypto.createHmac("sha256", secretKey).update(content).digest("base64url")
+}
+
+export class ChatTokenIssuer {
+    private secretKeys: Array<string>
+    private expiresIn: number
+
+    // First key signs new tokens, other keys are still accepted, so keys can be rotated without invalidating issued tokens
+    constructor(secretKeys: Array<string>, expiresIn: number) {
+        if (secretKeys.length == 0) {
+            throw new Error("At least one secret key is required to sign tokens")
+        }
+        this.secretKeys = secretKeys
+        this.expiresIn = expiresIn
+    }
+
+    issue(userId: string, name: string, locale?: string, now: number = Date.now()) {
+        const issuedAt = Math.floor(now / 1000)
+        return this.sign({
+            jti: nanoid(),
+            sub: userId,
+            name: name,
+            locale: locale,
+            iat: issuedAt,
+            exp: issuedAt + this.expiresIn,
+        })
+    }
+
+    // Resume tokens let clients reconnect without new tokens from `/add-user`,
+    // they keep ID of the session's first token, so revoking that token revokes the session as well
+    issueResume(session: { userId: string, name: string, locale?: string, tokenId: string }, expiresIn: number, now: number = Date.now()) {
+        const issuedAt = Math.floor(now / 1000)
+        return this.sign({
+            jti: nanoid(),
+            sub: session.userId,
+            name: session.name,
+            locale: session.locale,
+            iat: issuedAt,
+            exp: issuedAt + expiresIn,
+            typ: "resume",
+            sid: session.tokenId,
+        })
+    }
+
+    private sign(payload: ITokenPayload) {
+        const content = EncodeJson({ alg: "HS256", typ: "JWT", kid: GetKeyId(this.secretKeys[0]) }) + "." + EncodeJson(payload)
+        return {
+            token: content + "." + Sign(content, this.secretKeys[0]),
+            payload: payload,
+        }
+    }
+
+    verify(token: string, now: number = Date.now()): ITokenVerifyResult {
+        const parts = token.split(".")
+        if (parts.length != 3) {
+            return { error: "invalid" }
+        }
+        const header = DecodeJson(parts[0])
+        const payload: ITokenPayload | null = DecodeJson(parts[1])
+        if (!header || header.alg != "HS256" || !payload || typeof payload.sub !== "string" || typeof payload.exp !== "number") {
+            return { error: "invalid" }
+        }
+        let secretKey: string | null = null
+        for (const key of this.secretKeys) {
+            if (GetKeyId(key) == header.kid) {
+                secretKey = key
+                break
+            }
+        }
+        if (!secretKey) {
+            return { error: "invalid" }
+        }
+        const signature = Buffer.from(parts[2])
+        const expectedSignature = Buffer.from(Sign(parts[0] + "." + parts[1], secretKey))
+        if (signature.length != expectedSignature.length || !crypto.timingSafeEqual(signature, expectedSignature)) {
+            return { error: "invalid" }
+        }
+        if (payload.exp * 1000 <= now) {
+            return { error: "expired" }
+        }
+        return { payload: payload }
+    }
+}
@@ -0,0 +1,81 @@
+import { z } from 'zod'
+
+// everyone = delivered to every connected users, local = delivered to nearby users, members = delivered to users who joined the channel
+export type ChannelScope = "everyone" | "local" | "members"
+// everyone = anyone who can read the channel can post, none = read-only, only server can post by `/system-message`
+export type ChannelPostPermission = "everyone" | "none"
+
+export interface IChannelSettings {
+    channelId: string
+    title: string
+    scope: ChannelScope
+    postPermission: ChannelPostPermission
+    // Seconds that a user has to wait before posting again, 0 = disabled
+    slowMode: number
+    // 0 = unlimited, used by `members` channels only
+    maxMembers: number
+    // Clients can read channel history, otherwise messages are kept for reports for `CHANNEL_MESSAGE_RETENTION` seconds only
+    retainHistory: boolean
+}
+
+// Ids which are used by other kinds of messages, they can't be used as channel ID
+const RESERVED_CHANNEL_IDS = ["group", "whisper"]
+
+// Old clients know these channels by their own events, so they are still sent by the same events
+export const BUILT_IN_CHANNELS: Array<IChannelSettings> = [
+    {
+        channelId: "global",
+        title: "Global",
+        scope: "everyone",
+        postPermission: "everyone",
+        slowMode: 0,
+        maxMembers: 0,
+        retainHistory: false,
+    },
+    {
+        channelId: "local",
+        title: "Local",
+        scope: "local",
+        postPermission: "everyone",
+        slowMode: 0,
+        maxMembers: 0,
+        retainHistory: false,
+    },
+]
+
+const channelSettingsSchema = z.object({
+    channelId: z.string().min(1).max(191).regex(/^[A-Za-z0-9_-]+$/).refine(channelId => RESERVED_CHANNEL_IDS.indexOf(channelId) < 0),
+    title: z.string().min(1).max(191),
+    scope: z.enum(["everyone", "local", "members"]).default("members"),
+    postPermission: z.enum(["everyone", "none"]).default("everyone"),
+    slowMode: z.number().int().nonnegative().default(0),
+    maxMembers: z.number().int().nonnegative().default(0),
+    retainHistory: z.boolean().default(false),
+})
+
+// Returns `null` if the settings are invalid, unset settings will be filled with default values
+export function ParseChannelSettings(data: any): IChannelSettings | null {
+    const result = channelSettingsSchema.safeParse(data)
+    if (!result.success) {
+        return null
+    }
+    return result.data
+}
+
+export function GetChannelEventName(channelId: string): "global" | "local" | "channel" {
+    if (channelId == "global" || channelId == "local") {
+        return channelId
+    }
+    return "channel"
+}
+
+// Later lists override channels which have the same ID from earlier lists
+export function MergeChannelSettings(lists: Array<Array<IChannelSettings>>) {
+    const channels: { [channelId: string]: IChannelSettings } = {}
+    for (const list of lists) {
+        for (const channel of list) {
+            channels[channel.channelId] = channel
+        }
+    }
+    return channels
+}
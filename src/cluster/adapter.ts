@@ -0,0 +1,48 @@
+import { PresenceStatus, ServerToClientEvents } from '../events'
+import { IPosition } from '../types'
+
+export interface IPresence {
+    userId: string
+    name: string
+    nodeId: string
+    socketId: string
+    status: PresenceStatus
+}
+
+type ServerEventName = keyof ServerToClientEvents
+
+// Messages which will be published to every server instances,
+// each instance will deliver them to its own connected sockets
+export type ClusterMessage =
+    { type: "emit-all", event: ServerEventName, data: any, senderId?: string } |
+    { type: "emit-user", userId: string, event: ServerEventName, data: any } |
+    { type: "emit-group", groupId: string, event: ServerEventName, data: any, senderId?: string } |
+    { type: "emit-channel", channelId: string, event: ServerEventName, data: any, senderId?: string } |
+    { type: "emit-local", userId: string, position: IPosition, event: ServerEventName, data: any } |
+    { type: "group-add", groupId: string, userId: string } |
+    { type: "group-remove", groupId: string, userId: string } |
+    { type: "channel-add", channelId: string, userId: string } |
+    { type: "channel-remove", channelId: string, userId: string } |
+    { type: "channel-reload" } |
+    // Instance of `nodeId` won't handle it, it has handled its own sockets before publishing
+    { type: "disconnect-user", userId: string, socketId: string, nodeId?: string } |
+    { type: "revoke-token", userId: string, tokenId: string } |
+    { type: "mute", userId: string, muted: boolean, expiresAt: number | null } |
+    { type: "profanity-reload" }
+
+export type ClusterMessageHandler = (message: ClusterMessage) => void
+
+export interface IChatAdapter {
+    readonly nodeId: string
+    // Which instance the user is connected to
+    setPresence(presence: IPresence): Promise<void>
+    getPresence(userId: string): Promise<IPresence | null>
+    getPresenceByName(name: string): Promise<IPresence | null>
+    getPresences(): Promise<Array<IPresence>>
+    // Returns `true` if the presence was removed, it won't be removed if it was replaced by newer socket
+    removePresence(userId: string, socketId: string): Promise<boolean>
+    // Cross-instance fan-out, publisher will receive its own messages too
+    publish(message: ClusterMessage): Promise<void>
+    subscribe(handler: ClusterMessageHandler): Promise<void>
+    close(): Promise<void>
+}
@@ -0,0 +1,79 @@
+import { nanoid } from 'nanoid'
+import { ClusterMessage, ClusterMessageHandler, IChatAdapter, IPresence } from './adapter'
+
+// State which is shared by every adapters which are created with the same store,
+// so multiple server instances in one process can act like a cluster
+export class MemoryChatStore {
+    presences: { [userId: string]: IPresence } = {}
+    presenceNames: { [name: string]: string } = {}
+    handlers: Array<ClusterMessageHandler> = []
+}
+
+export class MemoryChatAdapter implements IChatAdapter {
+    readonly nodeId: string
+    private store: MemoryChatStore
+    private handlers: Array<ClusterMessageHandler> = []
+
+    constructor(store: MemoryChatStore = new MemoryChatStore(), nodeId: string = nanoid(8)) {
+        this.store = store
+        this.nodeId = nodeId
+    }
+
+    async setPresence(presence: IPresence) {
+        this.store.presences[presence.userId] = { ...presence }
+        this.store.presenceNames[presence.name] = presence.userId
+    }
+
+    async getPresence(userId: string) {
+        if (!Object.prototype.hasOwnProperty.call(this.store.presences, userId)) {
+            return null
+        }
+        return { ...this.store.presences[userId] }
+    }
+
+    async getPresenceByName(name: string) {
+        if (!Object.prototype.hasOwnProperty.call(this.store.presenceNames, name)) {
+            return null
+        }
+        return this.getPresence(this.store.presenceNames[name])
+    }
+
+    async getPresences() {
+        const list: Array<IPresence> = []
+        for (const userId in this.store.presences) {
+            list.push({ ...this.store.presences[userId] })
+        }
+        return list
+    }
+
+    async removePresence(userId: string, socketId: string) {
+        const presence = this.store.presences[userId]
+        // Newer connection may replaced the presence already
+        if (!presence || presence.socketId != socketId) {
+            return false
+        }
+        delete this.store.presences[userId]
+        if (this.store.presenceNames[presence.name] == userId) {
+            delete this.store.presenceNames[presence.name]
+        }
+        return true
+    }
+
+    async publish(message: ClusterMessage) {
+        // Serialize the message, so subscribers will receive the same data as other adapters
+        const json = JSON.stringify(message)
+        for (const handler of this.store.handlers) {
+            setImmediate(() => handler(JSON.parse(json)))
+        }
+    }
+
+    async subscribe(handler: ClusterMessageHandler) {
+        this.handlers.push(handler)
+        this.store.handlers.push(handler)
+    }
+
+    async close() {
+        this.store.handlers = this.store.handlers.filter(handler => this.handlers.indexOf(handler) < 0)
+        this.handlers = []
+    }
+}
@@ -0,0 +1,183 @@
+import { createClient } from 'redis'
+import { nanoid } from 'nanoid'
+import { ClusterMessage, ClusterMessageHandler, IChatAdapter, IPresence } from './adapter'
+import { ChatLogger } from '../logger'
+
+// Presences expire unless their node refreshes them, so users of a crashed node won't stay online
+const PRESENCE_TTL_MS = 30000
+const PRESENCE_REFRESH_INTERVAL_MS = 10000
+
+// Refresh presence only when it still belongs to the socket, it is set again if it has expired
+const REFRESH_PRESENCE_SCRIPT = `
+local value = redis.call('GET', KEYS[1])
+if value and cjson.decode(value).socketId ~= ARGV[2] then
+    return 0
+end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[4])
+redis.call('SET', KEYS[2], ARGV[3], 'PX', ARGV[4])
+return 1
+`
+
+// Delete presence only when it still belongs to the disconnected socket
+const REMOVE_PRESENCE_SCRIPT = `
+local value = redis.call('GET', KEYS[1])
+if not value then
+    return 0
+end
+if cjson.decode(value).socketId ~= ARGV[1] then
+    return 0
+end
+redis.call('DEL', KEYS[1])
+if redis.call('GET', KEYS[2]) == ARGV[2] then
+    redis.call('DEL', KEYS[2])
+end
+return 1
+`
+
+export class RedisChatAdapter implements IChatAdapter {
+    readonly nodeId: string
+    private prefix: string
+    private client: ReturnType<typeof createClient>
+    private subscriber: ReturnType<typeof createClient>
+    private ready: Promise<void>
+    // Presences of sockets which are connected to this node, by user ID
+    private presences: { [userId: string]: IPresence } = {}
+    private timer: ReturnType<typeof setInterval>
+    private logger: ChatLogger
+
+    constructor(url: string, prefix: string = "chat:", nodeId: string = nanoid(8), logger: ChatLogger = new ChatLogger()) {
+        this.nodeId = nodeId
+        this.prefix = prefix
+        this.logger = logger
+        this.client = createClient({ url: url })
+        // Subscribed connection can't send other commands, so it has to use another connection
+        this.subscriber = this.client.duplicate()
+        // Clients reconnect by themselves, unhandled errors would stop the process
+        this.client.on('error', (error) => {
+            logger.error("Redis client error", { connection: "client", error: error })
+        })
+        this.subscriber.on('error', (error) => {
+            logger.error("Redis client error", { connection: "subscriber", error: error })
+        })
+        this.ready = Promise.all([this.client.connect(), this.subscriber.connect()]).then(() => {})
+        this.timer = setInterval(() => {
+            this.refreshPresences().catch((error) => {
+                this.logger.error("Unable to refresh presences", { error: error })
+            })
+        }, PRESENCE_REFRESH_INTERVAL_MS)
+    }
+
+    private async refreshPresences() {
+        await this.ready
+        const presences: Array<IPresence> = []
+        for (const userId in this.presences) {
+            presences.push(this.presences[userId])
+        }
+        await Promise.all(presences.map(async (presence) => {
+            const refreshed = await this.client.eval(REFRESH_PRESENCE_SCRIPT, {
+                keys: [
+                    this.prefix + "presence:" + presence.userId,
+                    this.prefix + "presence-name:" + presence.name,
+                ],
+                arguments: [
+                    JSON.stringify(presence),
+                    presence.socketId,
+                    presence.userId,
+                    String(PRESENCE_TTL_MS),
+                ],
+            })
+            // User has connected to another node
+            if (refreshed != 1 && this.presences[presence.userId] === presence) {
+                delete this.presences[presence.userId]
+            }
+        }))
+    }
+
+    private async getJson(key: string) {
+        await this.ready
+        const value = await this.client.get(this.prefix + key)
+        if (!value) {
+            return null
+        }
+        return JSON.parse(value)
+    }
+
+    async setPresence(presence: IPresence) {
+        await this.ready
+        this.presences[presence.userId] = presence
+        await this.client.set(this.prefix + "presence:" + presence.userId, JSON.stringify(presence), { PX: PRESENCE_TTL_MS })
+        await this.client.set(this.prefix + "presence-name:" + presence.name, presence.userId, { PX: PRESENCE_TTL_MS })
+    }
+
+    async getPresence(userId: string): Promise<IPresence | null> {
+        return await this.getJson("presence:" + userId)
+    }
+
+    async getPresenceByName(name: string) {
+        await this.ready
+        const userId = await this.client.get(this.prefix + "presence-name:" + name)
+        if (!userId) {
+            return null
+        }
+        return await this.getPresence(userId)
+    }
+
+    async getPresences() {
+        await this.ready
+        const keys: Array<string> = []
+        for await (const key of this.client.scanIterator({ MATCH: this.prefix + "presence:*", COUNT: 100 })) {
+            keys.push(key)
+        }
+        if (keys.length == 0) {
+            return []
+        }
+        const list: Array<IPresence> = []
+        for (const value of await this.client.mGet(keys)) {
+            if (value) {
+                list.push(JSON.parse(value))
+            }
+        }
+        return list
+    }
+
+    async removePresence(userId: string, socketId: string) {
+        // Socket was disconnected, it doesn't need to be refreshed even if it was replaced by newer socket of another node
+        if (Object.prototype.hasOwnProperty.call(this.presences, userId) && this.presences[userId].socketId == socketId) {
+            delete this.presences[userId]
+        }
+        const presence = await this.getPresence(userId)
+        if (!presence) {
+            return false
+        }
+        const removed = await this.client.eval(REMOVE_PRESENCE_SCRIPT, {
+            keys: [
+                this.prefix + "presence:" + userId,
+                this.prefix + "presence-name:" + presence.name,
+            ],
+            arguments: [
+                socketId,
+                userId,
+            ],
+        })
+        return removed == 1
+    }
+
+    async publish(message: ClusterMessage) {
+        await this.ready
+        await this.client.publish(this.prefix + "cluster", JSON.stringify(message))
+    }
+
+    async subscribe(handler: ClusterMessageHandler) {
+        await this.ready
+        await this.subscriber.subscribe(this.prefix + "cluster", (message) => {
+            handler(JSON.parse(message))
+        })
+    }
+
+    async close() {
+        clearInterval(this.timer)
+        await this.ready
+        await this.subscriber.quit()
+        await this.client.quit()
+    }
+}
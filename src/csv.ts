@@ -0,0 +1,21 @@
+// Spreadsheet apps run cells which start with these characters as formulas
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"]
+
+function FormatCsvValue(value: any) {
+    if (value === null || value === undefined) {
+        return ""
+    }
+    let text = value instanceof Date ? value.toISOString() : String(value)
+    if (typeof value === "string" && FORMULA_PREFIXES.indexOf(text.charAt(0)) >= 0) {
+        text = "'" + text
+    }
+    if (/[",\r\n]/.test(text)) {
+        return "\"" + text.replace(/"/g, "\"\"") + "\""
+    }
+    return text
+}
+
+// RFC 4180 text, the first row is the header
+export function FormatCsv(rows: Array<Array<any>>) {
+    return rows.map(row => row.map(FormatCsvValue).join(",")).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,530 @@
+import { z } from 'zod'
+import { IChannelSettings } from './channels'
+import { IsProfanityFilterMode } from './profanity-filter'
+
+// Ids and titles are stored in VARCHAR(191) columns
+const MAX_ID_LENGTH = 191
+const MAX_TITLE_LENGTH = 191
+const MAX_URL_LENGTH = 191
+const MAX_REASON_LENGTH = 500
+// Emojis which are joined by ZWJ take several characters
+const MAX_EMOJI_LENGTH = 32
+
+export interface IEventLimits {
+    maxMessageLength: number
+}
+
+export function CreateClientEventSchemas(limits: IEventLimits) {
+    const id = z.string().min(1).max(MAX_ID_LENGTH)
+    const msg = z.string().min(1).max(limits.maxMessageLength)
+    const coordinate = z.number().finite()
+    const cursor = z.number().int().positive().nullish()
+    const messageId = z.number().int().positive()
+    // Message which is replied, it must be in the same conversation
+    const replyToId = messageId.optional()
+    const reaction = z.object({
+        messageId: messageId,
+        emoji: z.string().min(1).max(MAX_EMOJI_LENGTH).regex(/^\S+$/),
+    })
+    const empty = z.object({})
+    const groupMember = z.object({
+        groupId: id,
+        userId: id,
+    })
+    // Group or whisper partner
+    const conversation = z.object({
+        groupId: id.optional(),
+        targetUserId: id.optional(),
+    })
+    return {
+        "local": z.object({
+            msg: msg,
+            replyToId: replyToId,
+            map: z.string().min(1).max(MAX_ID_LENGTH).optional(),
+            x: coordinate.optional(),
+            y: coordinate.optional(),
+            z: coordinate.optional(),
+        }),
+        "channel": z.object({
+            channelId: id,
+            msg: msg,
+            replyToId: replyToId,
+            // Position is used by local channels only
+            map: z.string().min(1).max(MAX_ID_LENGTH).optional(),
+            x: coordinate.optional(),
+            y: coordinate.optional(),
+            z: coordinate.optional(),
+        }),
+        "channel-list": empty,
+        "join-channel": z.object({
+            channelId: id,
+        }),
+        "leave-channel": z.object({
+            channelId: id,
+        }),
+        "channel-history": z.object({
+            channelId: id,
+            cursor: cursor,
+            limit: z.number().int().positive().optional(),
+        }),
+        "position-update": z.object({
+            map: z.string().min(1).max(MAX_ID_LENGTH),
+            x: coordinate,
+            y: coordinate,
+            z: coordinate.optional(),
+        }),
+        "global": z.object({
+            msg: msg,
+            replyToId: replyToId,
+        }),
+        "whisper": z.object({
+            targetName: z.string().min(1).max(MAX_TITLE_LENGTH),
+            msg: msg,
+            replyToId: replyToId,
+        }),
+        "whisper-by-id": z.object({
+            targetUserId: id,
+            msg: msg,
+            replyToId: replyToId,
+        }),
+        "group": z.object({
+            groupId: id,
+            msg: msg,
+            replyToId: replyToId,
+        }),
+        // Only the sender can edit or delete the message
+        "edit-message": z.object({
+            messageId: messageId,
+            msg: msg,
+        }),
+        "delete-message": z.object({
+            messageId: messageId,
+        }),
+        "add-reaction": reaction,
+        "remove-reaction": reaction,
+        "group-history": z.object({
+            groupId: id,
+            cursor: cursor,
+            limit: z.number().int().positive().optional(),
+        }),
+        "whisper-history": z.object({
+            targetUserId: id,
+            cursor: cursor,
+            limit: z.number().int().positive().optional(),
+        }),
+        "unread-list": empty,
+        "mark-read": z.object({
+            groupId: id.optional(),
+            targetUserId: id.optional(),
+            messageId: z.number().int().positive().optional(),
+        }),
+        "create-group": z.object({
+            title: z.string().min(1).max(MAX_TITLE_LENGTH),
+            iconUrl: z.string().max(MAX_URL_LENGTH).optional(),
+        }),
+        "update-group": z.object({
+            groupId: id,
+            title: z.string().min(1).max(MAX_TITLE_LENGTH).optional(),
+            iconUrl: z.string().max(MAX_URL_LENGTH).optional(),
+            profanityFilter: z.enum(["censor", "reject", "off"]).optional(),
+        }),
+        "group-invitation-list": empty,
+        // Pending invitations which were sent by members of the group
+        "group-invite-list": z.object({
+            groupId: id,
+        }),
+        "group-invite-cancel": groupMember,
+        "group-user-list": z.object({
+            groupId: id,
+        }),
+        "group-list": empty,
+        "group-invite": groupMember,
+        "group-invite-accept": z.object({
+            groupId: id,
+        }),
+        "group-invite-decline": z.object({
+            groupId: id,
+        }),
+        "leave-group": z.object({
+            groupId: id,
+        }),
+        "delete-group": z.object({
+            groupId: id,
+        }),
+        "kick-user": groupMember,
+        "promote": groupMember,
+        "demote": groupMember,
+        "transfer-ownership": groupMember,
+        "block-user": z.object({
+            userId: id,
+        }),
+        "unblock-user": z.object({
+            userId: id,
+        }),
+        "block-list": empty,
+        "set-status": z.object({
+            status: z.enum(["online", "away"]),
+        }),
+        "typing-start": conversation,
+        "typing-stop": conversation,
+        "read-receipt-list": conversation,
+        "report-message": z.object({
+            messageId: messageId,
+            reason: z.string().max(MAX_REASON_LENGTH).optional(),
+        }),
+    }
+}
+
+export type ClientEventSchemas = ReturnType<typeof CreateClientEventSchemas>
+export type ClientEventName = keyof ClientEventSchemas
+export type ClientEventData<E extends ClientEventName> = z.infer<ClientEventSchemas[E]>
+
+// Body of admin POST routes, or query of admin GET routes whose values are strings
+export function CreateAdminRouteSchemas(limits: IEventLimits) {
+    const id = z.string().min(1).max(MAX_ID_LENGTH)
+    const title = z.string().min(1).max(MAX_TITLE_LENGTH)
+    const iconUrl = z.string().max(MAX_URL_LENGTH).nullish()
+    const locale = z.string().min(1).max(MAX_ID_LENGTH).transform(locale => locale.toLowerCase())
+    const profanityFilter = z.string().refine(IsProfanityFilterMode)
+    // Duration in seconds, 0 = permanent
+    const duration = z.number().int().nonnegative().default(0)
+    const reason = z.string().max(MAX_REASON_LENGTH).optional()
+    const words = z.array(z.string().trim().min(1).max(MAX_ID_LENGTH).transform(word => word.toLowerCase())).min(1)
+    const empty = z.object({})
+    const user = z.object({
+        userId: id,
+    })
+    const group = z.object({
+        groupId: id,
+    })
+    const groupMember = z.object({
+        groupId: id,
+        userId: id,
+    })
+    const moderation = z.object({
+        userId: id,
+        duration: duration,
+        reason: reason,
+    })
+    const profanityWords = z.object({
+        words: words,
+        locale: locale.optional(),
+        // Allowed words won't be censored even if they contain bad words
+        allowed: z.boolean().default(false),
+    })
+    return {
+        "/healthz": empty,
+        "/readyz": empty,
+        "/metrics": empty,
+        "/add-user": z.object({
+            userId: id,
+            name: title,
+            iconUrl: iconUrl,
+            locale: z.string().max(MAX_ID_LENGTH).optional(),
+        }),
+        "/remove-user": user,
+        "/user-data": user,
+        "/forget-user": user,
+        "/revoke-token": z.object({
+            token: z.string().min(1),
+        }),
+        "/mute-user": moderation,
+        "/unmute-user": user,
+        "/ban-user": moderation,
+        "/unban-user": user,
+        "/groups": empty,
+        "/group": group,
+        // Milliseconds since epoch or ISO 8601 text
+        "/group-transcript": z.object({
+            groupId: id,
+            format: z.enum(["json", "csv"]).default("json"),
+            from: z.string().optional(),
+            to: z.string().optional(),
+        }),
+        "/create-group": z.object({
+            groupId: id.optional(),
+            title: title,
+            iconUrl: iconUrl,
+            profanityFilter: profanityFilter.optional(),
+            ownerId: id.optional(),
+        }),
+        "/update-group": z.object({
+            groupId: id,
+            title: title.optional(),
+            iconUrl: iconUrl,
+            profanityFilter: profanityFilter.optional(),
+        }),
+        "/delete-group": group,
+        "/add-group-user": groupMember.extend({
+            // Member or moderator, a group has one owner which is set by `ownerId` of "/create-group"
+            role: z.number().int().min(0).max(1).default(0),
+        }),
+        "/remove-group-user": groupMember,
+        "/online-users": empty,
+        "/disconnect-user": user,
+        "/system-message": z.object({
+            msg: z.string().min(1).max(limits.maxMessageLength),
+            userId: id.optional(),
+            groupId: id.optional(),
+            channelId: id.optional(),
+        }),
+        "/profanity-words": z.object({
+            locale: locale.optional(),
+        }),
+        "/add-profanity-words": profanityWords,
+        "/remove-profanity-words": profanityWords,
+        "/reports": z.object({
+            status: z.string().min(1).max(MAX_ID_LENGTH).optional(),
+            userId: id.optional(),
+            // ID of the oldest report from previous page
+            cursor: z.coerce.number().int().positive().optional(),
+            limit: z.coerce.number().int().positive().optional(),
+        }),
+        "/report": z.object({
+            reportId: z.coerce.number().int().positive(),
+        }),
+        "/resolve-report": z.object({
+            reportId: z.number().int().positive(),
+            // Resolved = action was taken or not required, dismissed = the report is invalid
+            status: z.enum(["resolved", "dismissed"]).default("resolved"),
+            action: z.enum(["mute", "ban"]).optional(),
+            duration: duration,
+            reason: reason,
+            note: z.string().max(MAX_REASON_LENGTH).optional(),
+            moderatorId: id.optional(),
+        }),
+        "/channels": empty,
+        // Channel settings are validated by `ParseChannelSettings`
+        "/create-channel": z.object({}).passthrough(),
+        "/update-channel": z.object({
+            channelId: id,
+        }).passthrough(),
+        "/delete-channel": z.object({
+            channelId: id,
+        }),
+    }
+}
+
+export type AdminRouteSchemas = ReturnType<typeof CreateAdminRouteSchemas>
+export type AdminRoutePath = keyof AdminRouteSchemas
+export type AdminRouteData<P extends AdminRoutePath> = z.infer<AdminRouteSchemas[P]>
+
+export interface IAckResponse {
+    success: boolean
+    code?: string
+}
+
+export type ClientToServerEvents = {
+    [E in ClientEventName]: (data: ClientEventData<E>, ack?: (response: IAckResponse) => void) => void
+}
+
+export interface IGroupData {
+    groupId: string
+    title: string
+    iconUrl?: string | null
+    profanityFilter?: string
+    archivedAt?: Date | null
+}
+
+export interface IGroupInvitationData extends IGroupData {
+    inviterId: string | null
+    inviterName: string
+    createdAt: Date
+    expiresAt: Date | null
+}
+
+// Invitation which was sent by the group
+export interface IGroupInviteData {
+    userId: string
+    name: string
+    inviterId: string | null
+    createdAt: Date
+    expiresAt: Date | null
+}
+
+export interface IUserData {
+    userId: string
+    name: string
+    iconUrl: string | null
+}
+
+export type PresenceStatus = "online" | "away" | "offline"
+
+export interface IPresenceData {
+    userId: string
+    status: PresenceStatus
+    // When the user was disconnected, it is set for offline users only
+    lastSeenAt: Date | null
+}
+
+export interface IGroupUserData extends IUserData {
+    role: number
+    status: PresenceStatus
+    lastSeenAt: Date | null
+}
+
+export interface IReactionData {
+    emoji: string
+    userIds: string[]
+}
+
+export interface IMessageData {
+    messageId: number
+    channel: string
+    groupId: string | null
+    userId: string
+    userId2: string | null
+    // Empty if the message was deleted
+    msg: string
+    replyToId: number | null
+    reactions: IReactionData[]
+    editedAt: Date | null
+    deletedAt: Date | null
+    createdAt: Date
+}
+
+export interface IUnreadData {
+    channel: string
+    groupId?: string
+    userId?: string
+    count: number
+}
+
+export interface IChatMessage {
+    // Used to refer to the message, such as when reporting it
+    messageId: number
+    userId: string
+    name: string
+    msg: string
+    replyToId: number | null
+    // IDs of mentioned users, they receive "mention" too
+    mentions: string[]
+    createdAt: Date
+}
+
+export interface IMentionData {
+    messageId: number
+    // Channel ID, "group" or "whisper"
+    channel: string
+    groupId: string | null
+    userId: string
+    name: string
+    msg: string
+    createdAt: Date
+}
+
+export interface IMessageEditData {
+    messageId: number
+    channel: string
+    groupId: string | null
+    msg: string
+    editedAt: Date
+}
+
+export interface IReactionEventData {
+    messageId: number
+    channel: string
+    groupId: string | null
+    userId: string
+    emoji: string
+    // `false` if the reaction was removed
+    added: boolean
+}
+
+export interface IChannelMessage extends IChatMessage {
+    channelId: string
+    // Position is set for local channels only
+    map?: string
+    x?: number
+    y?: number
+    z?: number
+}
+
+export interface IChannelData extends IChannelSettings {
+    joined: boolean
+}
+
+export interface ILocalMessage extends IChatMessage {
+    map: string
+    x: number
+    y: number
+    z: number
+}
+
+export interface IWhisperMessage extends IChatMessage {
+    userId2: string
+    name2: string
+}
+
+export interface IGroupMessage extends IChatMessage {
+    groupId: string
+}
+
+export interface ITypingData {
+    userId: string
+    name: string
+    // Not set for whispers
+    groupId?: string
+    typing: boolean
+}
+
+export interface IReadReceiptData {
+    userId: string
+    // Not set for whispers
+    groupId?: string
+    messageId: number
+}
+
+export interface ISessionData {
+    // Connect with `auth: { resumeToken, lastMessageId }` to resume the session after the client was disconnected
+    resumeToken: string
+    // Milliseconds since epoch
+    expiresAt: number
+    // Messages which were missed were sent before this event
+    resumed: boolean
+}
+
+export interface ServerToClientEvents {
+    "error": (data: { event: string, code: string }) => void
+    "local": (data: ILocalMessage) => void
+    "global": (data: IChatMessage) => void
+    "channel": (data: IChannelMessage) => void
+    "channel-list": (data: { list: IChannelData[] }) => void
+    "join-channel": (data: { channelId: string }) => void
+    "leave-channel": (data: { channelId: string }) => void
+    "channel-history": (data: { channelId: string, list: IMessageData[], nextCursor: number | null }) => void
+    "whisper": (data: IWhisperMessage) => void
+    "group": (data: IGroupMessage) => void
+    "mention": (data: IMentionData) => void
+    "message-edit": (data: IMessageEditData) => void
+    "message-delete": (data: { messageId: number, channel: string, groupId: string | null }) => void
+    "reaction": (data: IReactionEventData) => void
+    "group-history": (data: { groupId: string, list: IMessageData[], nextCursor: number | null }) => void
+    "whisper-history": (data: { targetUserId: string, list: IMessageData[], nextCursor: number | null }) => void
+    "unread-list": (data: { list: IUnreadData[] }) => void
+    "create-group": (data: IGroupData) => void
+    "update-group": (data: IGroupData) => void
+    "group-invitation-list": (data: { list: IGroupInvitationData[] }) => void
+    "group-invitation": (data: IGroupInvitationData) => void
+    "group-invite-list": (data: { groupId: string, list: IGroupInviteData[] }) => void
+    "group-invite-decline": (data: { groupId: string, userId: string, name: string }) => void
+    "group-user-list": (data: { groupId: string, list: IGroupUserData[] }) => void
+    "group-list": (data: { list: IGroupData[] }) => void
+    "group-join": (data: { groupId: string, userId: string, name: string }) => void
+    "group-leave": (data: { groupId: string }) => void
+    "group-role": (data: { groupId: string, userId: string, role: number }) => void
+    "rate-limited": (data: { channel: string, reason: string, retryAfter: number }) => void
+    "block-list": (data: { list: IUserData[] }) => void
+    "delete-group": (data: { groupId: string }) => void
+    "system-message": (data: { groupId?: string, channelId?: string, msg: string }) => void
+    "presence": (data: IPresenceData) => void
+    "typing": (data: ITypingData) => void
+    "read-receipt": (data: IReadReceiptData) => void
+    "read-receipt-list": (data: { groupId?: string, targetUserId?: string, list: Array<{ userId: string, messageId: number }> }) => void
+    "session": (data: ISessionData) => void
+    // Milliseconds to wait before reconnecting
+    "server-restarting": (data: { retryAfter: number }) => void
+}
+
+export interface InterServerEvents {
+}
@@ -0,0 +1,97 @@
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+const LOG_LEVEL_ORDERS: { [level in LogLevel]: number } = {
+    "debug": 10,
+    "info": 20,
+    "warn": 30,
+    "error": 40,
+}
+
+export function IsLogLevel(value: any): value is LogLevel {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(LOG_LEVEL_ORDERS, value)
+}
+
+export interface ILogFields {
+    [key: string]: any
+}
+
+export type LogWriter = (line: string) => void
+
+function WriteToStdout(line: string) {
+    process.stdout.write(line + "\n")
+}
+
+// Errors' properties are not enumerable, so they would be written as `{}`
+function SerializeField(value: any) {
+    if (value instanceof Error) {
+        return {
+            name: value.name,
+            message: value.message,
+            stack: value.stack,
+        }
+    }
+    return value
+}
+
+// Writes one JSON object per line, so logs can be collected and searched by their fields
+export class ChatLogger {
+    private level: LogLevel
+    private fields: ILogFields
+    private write: LogWriter
+
+    constructor(level: LogLevel = "info", fields: ILogFields = {}, write: LogWriter = WriteToStdout) {
+        this.level = level
+        this.fields = fields
+        this.write = write
+    }
+
+    // Logger which adds the fields to every entries, such as correlation ID of a socket
+    child(fields: ILogFields) {
+        return new ChatLogger(this.level, { ...this.fields, ...fields }, this.write)
+    }
+
+    debug(msg: string, fields?: ILogFields) {
+        this.log("debug", msg, fields)
+    }
+
+    info(msg: string, fields?: ILogFields) {
+        this.log("info", msg, fields)
+    }
+
+    warn(msg: string, fields?: ILogFields) {
+        this.log("warn", msg, fields)
+    }
+
+    error(msg: string, fields?: ILogFields) {
+        this.log("error", msg, fields)
+    }
+
+    private log(level: LogLevel, msg: string, fields?: ILogFields) {
+        if (LOG_LEVEL_ORDERS[level] < LOG_LEVEL_ORDERS[this.level]) {
+            return
+        }
+        const entry: ILogFields = {
+            time: new Date().toISOString(),
+            level: level,
+            msg: msg,
+        }
+        const allFields: ILogFields = { ...this.fields, ...fields }
+        for (const key in allFields) {
+            if (allFields[key] !== undefined) {
+                entry[key] = SerializeField(allFields[key])
+            }
+        }
+        let line: string
+        try {
+            line = JSON.stringify(entry)
+        } catch (error) {
+            // Circular fields, keep the message at least
+            line = JSON.stringify({
+                time: entry.time,
+                level: level,
+                msg: msg,
+            })
+        }
+        this.write(line)
+    }
+}
@@ -0,0 +1,181 @@
+export type MetricLabels = { [name: string]: string }
+
+export interface IMetricSample {
+    labels: MetricLabels
+    value: number
+}
+
+interface IMetric {
+    render(): Array<string>
+}
+
+// Default buckets in seconds, for durations of database queries
+export const DEFAULT_DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+function EscapeLabelValue(value: string) {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")
+}
+
+// Labels are sorted, so the same labels always make the same key
+function GetLabelsKey(labels: MetricLabels) {
+    const names = Object.keys(labels).sort()
+    if (names.length == 0) {
+        return ""
+    }
+    return "{" + names.map(name => name + "=\"" + EscapeLabelValue(String(labels[name])) + "\"").join(",") + "}"
+}
+
+function FormatValue(value: number) {
+    if (value == Infinity) {
+        return "+Inf"
+    }
+    if (value == -Infinity) {
+        return "-Inf"
+    }
+    return String(value)
+}
+
+function RenderHeader(name: string, help: string, type: string) {
+    return [
+        "# HELP " + name + " " + help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n"),
+        "# TYPE " + name + " " + type,
+    ]
+}
+
+export class Counter implements IMetric {
+    private name: string
+    private help: string
+    private values: { [key: string]: number } = {}
+
+    constructor(name: string, help: string) {
+        this.name = name
+        this.help = help
+    }
+
+    inc(labels: MetricLabels = {}, value: number = 1) {
+        const key = GetLabelsKey(labels)
+        this.values[key] = (this.values[key] || 0) + value
+    }
+
+    get(labels: MetricLabels = {}) {
+        return this.values[GetLabelsKey(labels)] || 0
+    }
+
+    render() {
+        const lines = RenderHeader(this.name, this.help, "counter")
+        for (const key in this.values) {
+            lines.push(this.name + key + " " + FormatValue(this.values[key]))
+        }
+        return lines
+    }
+}
+
+// Value is read by `collect` when the metrics are rendered, so it never gets stale
+export class Gauge implements IMetric {
+    private name: string
+    private help: string
+    private collect: () => number | Array<IMetricSample>
+
+    constructor(name: string, help: string, collect: () => number | Array<IMetricSample>) {
+        this.name = name
+        this.help = help
+        this.collect = collect
+    }
+
+    render() {
+        const lines = RenderHeader(this.name, this.help, "gauge")
+        const result = this.collect()
+        const samples = typeof result === "number" ? [{ labels: {}, value: result }] : result
+        for (const sample of samples) {
+            lines.push(this.name + GetLabelsKey(sample.labels) + " " + FormatValue(sample.value))
+        }
+        return lines
+    }
+}
+
+interface IHistogramSeries {
+    labels: MetricLabels
+    // Not cumulative, amount of observations which are in each bucket only
+    counts: Array<number>
+    sum: number
+    count: number
+}
+
+export class Histogram implements IMetric {
+    private name: string
+    private help: string
+    private buckets: Array<number>
+    private series: { [key: string]: IHistogramSeries } = {}
+
+    constructor(name: string, help: string, buckets: Array<number> = DEFAULT_DURATION_BUCKETS) {
+        this.name = name
+        this.help = help
+        this.buckets = buckets.slice().sort((a, b) => a - b)
+    }
+
+    observe(value: number, labels: MetricLabels = {}) {
+        const key = GetLabelsKey(labels)
+        if (!Object.prototype.hasOwnProperty.call(this.series, key)) {
+            this.series[key] = {
+                labels: labels,
+                counts: this.buckets.map(() => 0),
+                sum: 0,
+                count: 0,
+            }
+        }
+        const series = this.series[key]
+        const index = this.buckets.findIndex(bucket => value <= bucket)
+        if (index >= 0) {
+            series.counts[index]++
+        }
+        series.sum += value
+        series.count++
+    }
+
+    render() {
+        const lines = RenderHeader(this.name, this.help, "histogram")
+        for (const key in this.series) {
+            const series = this.series[key]
+            let cumulative = 0
+            for (let i = 0; i < this.buckets.length; ++i) {
+                cumulative += series.counts[i]
+                lines.push(this.name + "_bucket" + GetLabelsKey({ ...series.labels, le: FormatValue(this.buckets[i]) }) + " " + cumulative)
+            }
+            lines.push(this.name + "_bucket" + GetLabelsKey({ ...series.labels, le: "+Inf" }) + " " + series.count)
+            lines.push(this.name + "_sum" + key + " " + FormatValue(series.sum))
+            lines.push(this.name + "_count" + key + " " + series.count)
+        }
+        return lines
+    }
+}
+
+// Renders metrics in Prometheus text format
+export class MetricRegistry {
+    private metrics: Array<IMetric> = []
+
+    counter(name: string, help: string) {
+        const counter = new Counter(name, help)
+        this.metrics.push(counter)
+        return counter
+    }
+
+    gauge(name: string, help: string, collect: () => number | Array<IMetricSample>) {
+        const gauge = new Gauge(name, help, collect)
+        this.metrics.push(gauge)
+        return gauge
+    }
+
+    histogram(name: string, help: string, buckets?: Array<number>) {
+        const histogram = new Histogram(name, help, buckets)
+        this.metrics.push(histogram)
+        return histogram
+    }
+
+    render() {
+        const lines: Array<string> = []
+        for (const metric of this.metrics) {
+            lines.push(...metric.render())
+        }
+        return lines.join("\n") + "\n"
+    }
+}
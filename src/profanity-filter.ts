@@ -0,0 +1,160 @@
+import { Profanity, ProfanityOptions } from '@2toad/profanity'
+
+// censor = replace bad words with grawlix, reject = don't send the message, off = send as it is
+export type ProfanityFilterMode = "censor" | "reject" | "off"
+
+export const PROFANITY_FILTER_MODES: Array<ProfanityFilterMode> = ["censor", "reject", "off"]
+
+export interface IProfanityFilterOptions {
+    // Match whole words only, so innocent words which contain bad words won't be censored,
+    // it doesn't work with languages which don't separate words by spaces
+    wholeWord: boolean
+    grawlix: string
+    // Locale which will be used for users who don't have a locale or have a locale without word list
+    defaultLocale: string
+}
+
+export interface IProfanityWordList {
+    locale: string
+    words: Array<string>
+    // Words which won't be censored even if they are matched with bad words
+    allowedWords: Array<string>
+}
+
+interface ILocaleFilter {
+    profanity: Profanity
+    // Matches allowed words, text inside them won't be checked
+    allowedRegex: RegExp | null
+}
+
+function EscapeRegExp(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+export function IsProfanityFilterMode(mode: any): mode is ProfanityFilterMode {
+    return PROFANITY_FILTER_MODES.indexOf(mode) >= 0
+}
+
+export class ChatProfanityFilter {
+    private options: IProfanityFilterOptions
+    private filters: { [locale: string]: ILocaleFilter } = {}
+
+    constructor(options: IProfanityFilterOptions) {
+        this.options = options
+        this.load([])
+    }
+
+    // Replace every word lists, it can be called again to reload them without restarting
+    load(lists: Array<IProfanityWordList>) {
+        const defaultLocale = this.options.defaultLocale.toLowerCase()
+        let defaultList: IProfanityWordList = {
+            locale: defaultLocale,
+            words: [],
+            allowedWords: [],
+        }
+        for (const list of lists) {
+            if (list.locale.toLowerCase() == defaultLocale) {
+                defaultList = list
+            }
+        }
+        const filters: { [locale: string]: ILocaleFilter } = {}
+        filters[defaultLocale] = this.createFilter([defaultList])
+        for (const list of lists) {
+            if (list.locale.toLowerCase() == defaultLocale) {
+                continue
+            }
+            // Default locale's words are also bad words in other locales
+            filters[list.locale.toLowerCase()] = this.createFilter([defaultList, list])
+        }
+        this.filters = filters
+    }
+
+    exists(text: string, locale?: string) {
+        const filter = this.getFilter(locale)
+        for (const part of this.split(filter, text)) {
+            if (!part.allowed && filter.profanity.exists(part.text)) {
+                return true
+            }
+        }
+        return false
+    }
+
+    censor(text: string, locale?: string) {
+        const filter = this.getFilter(locale)
+        let result = ""
+        for (const part of this.split(filter, text)) {
+            result += part.allowed ? part.text : filter.profanity.censor(part.text)
+        }
+        return result
+    }
+
+    // Returns filtered text, or `null` if it has to be rejected
+    filter(text: string, mode: ProfanityFilterMode, locale?: string) {
+        switch (mode) {
+            case "off":
+                return text
+            case "reject":
+                return this.exists(text, locale) ? null : text
+            default:
+                return this.censor(text, locale)
+        }
+    }
+
+    private getFilter(locale?: string) {
+        if (locale) {
+            locale = locale.toLowerCase()
+            if (Object.prototype.hasOwnProperty.call(this.filters, locale)) {
+                return this.filters[locale]
+            }
+            // Use language's list if there is no list for the region, such as "th" for "th-th"
+            const language = locale.split(/[-_]/)[0]
+            if (Object.prototype.hasOwnProperty.call(this.filters, language)) {
+                return this.filters[language]
+            }
+        }
+        return this.filters[this.options.defaultLocale.toLowerCase()]
+    }
+
+    // Split the text by allowed words, so they can be skipped
+    private split(filter: ILocaleFilter, text: string) {
+        const parts: Array<{ text: string, allowed: boolean }> = []
+        if (!filter.allowedRegex) {
+            parts.push({ text: text, allowed: false })
+            return parts
+        }
+        filter.allowedRegex.lastIndex = 0
+        let index = 0
+        let match: RegExpExecArray | null
+        while ((match = filter.allowedRegex.exec(text)) !== null) {
+            parts.push({ text: text.substring(index, match.index), allowed: false })
+            parts.push({ text: match[0], allowed: true })
+            index = match.index + match[0].length
+        }
+        parts.push({ text: text.substring(index), allowed: false })
+        return parts
+    }
+
+    private createFilter(lists: Array<IProfanityWordList>) {
+        const profanityOptions = new ProfanityOptions()
+        profanityOptions.wholeWord = this.options.wholeWord
+        profanityOptions.grawlix = this.options.grawlix
+        const profanity = new Profanity(profanityOptions)
+        const allowedWords: Array<string> = []
+        for (const list of lists) {
+            if (list.words.length > 0) {
+                profanity.addWords(list.words)
+            }
+            for (const word of list.allowedWords) {
+                if (word.length > 0) {
+                    allowedWords.push(EscapeRegExp(word))
+                }
+            }
+        }
+        const filter: ILocaleFilter = {
+            profanity: profanity,
+            // Not bounded by word boundaries, some languages don't separate words by spaces
+            allowedRegex: allowedWords.length > 0 ? new RegExp("(" + allowedWords.join("|") + ")", "ig") : null,
+        }
+        return filter
+    }
+}
@@ -0,0 +1,178 @@
+export interface IRateLimit {
+    // Max amount of messages which can be sent in a burst
+    capacity: number
+    // Amount of messages which will be allowed to send again per second
+    refillPerSecond: number
+}
+
+export interface IRateLimiterOptions {
+    limits: { [channel: string]: IRateLimit }
+    // Limit of channels which are not in `limits`, such as channels which were created by admin routes, unset = unlimited
+    defaultLimit?: IRateLimit
+    // Same message in the same channel within this duration will be rejected, 0 = allow duplicates
+    duplicateWindowMs: number
+    // Rejected messages within `violationWindowMs` which will make the user muted, 0 = never mute
+    muteViolations: number
+    violationWindowMs: number
+    muteDurationMs: number
+}
+
+export type RateLimitReason = "rate-limit" | "duplicate" | "muted"
+
+export interface IRateLimitResult {
+    allowed: boolean
+    reason?: RateLimitReason
+    // Milliseconds until the user can send a message again
+    retryAfter?: number
+}
+
+interface IBucket {
+    tokens: number
+    updatedAt: number
+}
+
+interface ILastMessage {
+    msg: string
+    sentAt: number
+}
+
+export class ChatRateLimiter {
+    private options: IRateLimiterOptions
+    private buckets: { [userId: string]: { [channel: string]: IBucket } } = {}
+    private lastMessages: { [userId: string]: { [channel: string]: ILastMessage } } = {}
+    private violations: { [userId: string]: Array<number> } = {}
+    private mutedUntil: { [userId: string]: number } = {}
+
+    constructor(options: IRateLimiterOptions) {
+        this.options = options
+    }
+
+    check(userId: string, channel: string, msg: string, now: number = Date.now()): IRateLimitResult {
+        // Muted users can't send anything until the mute expires
+        const mutedUntil = this.mutedUntil[userId]
+        if (mutedUntil) {
+            if (mutedUntil > now) {
+                return {
+                    allowed: false,
+                    reason: "muted",
+                    retryAfter: mutedUntil - now,
+                }
+            }
+            delete this.mutedUntil[userId]
+        }
+        if (!this.lastMessages[userId]) {
+            this.lastMessages[userId] = {}
+        }
+        // Reject the same message which was just sent
+        const normalizedMsg = msg.trim().toLowerCase()
+        const lastMessage = this.lastMessages[userId][channel]
+        if (this.options.duplicateWindowMs > 0 && lastMessage && lastMessage.msg == normalizedMsg && now - lastMessage.sentAt < this.options.duplicateWindowMs) {
+            return this.reject(userId, "duplicate", lastMessage.sentAt + this.options.duplicateWindowMs - now, now)
+        }
+        const limit = this.getLimit(channel)
+        if (limit) {
+            const bucket = this.refill(userId, channel, limit, now)
+            if (bucket.tokens < 1) {
+                return this.reject(userId, "rate-limit", Math.ceil((1 - bucket.tokens) / limit.refillPerSecond * 1000), now)
+            }
+            bucket.tokens -= 1
+        }
+        this.lastMessages[userId][channel] = {
+            msg: normalizedMsg,
+            sentAt: now,
+        }
+        return {
+            allowed: true,
+        }
+    }
+
+    // Forget users which stop sending messages for a while, their state are the same as new users
+    prune(now: number = Date.now()) {
+        for (const userId in this.buckets) {
+            let idle = true
+            for (const channel in this.buckets[userId]) {
+                const limit = this.getLimit(channel)
+                // Limits may be changed since the bucket was filled
+                if (!limit) {
+                    continue
+                }
+                const bucket = this.buckets[userId][channel]
+                if (bucket.tokens + (now - bucket.updatedAt) / 1000 * limit.refillPerSecond < limit.capacity) {
+                    idle = false
+                    break
+                }
+            }
+            if (idle) {
+                delete this.buckets[userId]
+            }
+        }
+        for (const userId in this.lastMessages) {
+            let idle = true
+            for (const channel in this.lastMessages[userId]) {
+                if (now - this.lastMessages[userId][channel].sentAt < this.options.duplicateWindowMs) {
+                    idle = false
+                    break
+                }
+            }
+            if (idle) {
+                delete this.lastMessages[userId]
+            }
+        }
+        for (const userId in this.violations) {
+            this.violations[userId] = this.violations[userId].filter(violatedAt => now - violatedAt < this.options.violationWindowMs)
+            if (this.violations[userId].length == 0) {
+                delete this.violations[userId]
+            }
+        }
+        for (const userId in this.mutedUntil) {
+            if (this.mutedUntil[userId] <= now) {
+                delete this.mutedUntil[userId]
+            }
+        }
+    }
+
+    private getLimit(channel: string): IRateLimit | undefined {
+        return this.options.limits[channel] || this.options.defaultLimit
+    }
+
+    private refill(userId: string, channel: string, limit: IRateLimit, now: number) {
+        if (!this.buckets[userId]) {
+            this.buckets[userId] = {}
+        }
+        let bucket = this.buckets[userId][channel]
+        if (!bucket) {
+            bucket = {
+                tokens: limit.capacity,
+                updatedAt: now,
+            }
+            this.buckets[userId][channel] = bucket
+        }
+        const elapsedSeconds = (now - bucket.updatedAt) / 1000
+        bucket.tokens = Math.min(limit.capacity, bucket.tokens + elapsedSeconds * limit.refillPerSecond)
+        bucket.updatedAt = now
+        return bucket
+    }
+
+    private reject(userId: string, reason: RateLimitReason, retryAfter: number, now: number): IRateLimitResult {
+        if (this.options.muteViolations > 0) {
+            const violations = (this.violations[userId] || []).filter(violatedAt => now - violatedAt < this.options.violationWindowMs)
+            violations.push(now)
+            this.violations[userId] = violations
+            // Too many rejected messages, it is flooding, mute the user
+            if (violations.length >= this.options.muteViolations) {
+                delete this.violations[userId]
+                this.mutedUntil[userId] = now + this.options.muteDurationMs
+                return {
+                    allowed: false,
+                    reason: "muted",
+                    retryAfter: this.options.muteDurationMs,
+                }
+            }
+        }
+        return {
+            allowed: false,
+            reason: reason,
+            retryAfter: retryAfter,
+        }
+    }
+}
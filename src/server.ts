@@ -0,0 +1,3632 @@
+import { Server, Socket } from 'socket.io'
+import { nanoid } from 'nanoid'
+import { z } from 'zod'
+import express from 'express'
+import cors from 'cors'
+import bodyParser from 'body-parser'
+import https from 'https'
+import http from 'http'
+import fs from 'fs'
+import { AdminRouteData, AdminRoutePath, ClientEventData, ClientEventName, ClientToServerEvents, CreateAdminRouteSchemas, CreateClientEventSchemas, IAckResponse, IGroupInvitationData, IGroupUserData, IMessageData, IReactionData, IUnreadData, IUserData, InterServerEvents, PresenceStatus, ServerToClientEvents } from './events'
+import { IClientData, IPosition } from './types'
+import { ClusterMessage, IChatAdapter } from './cluster/adapter'
+import { MemoryChatAdapter } from './cluster/memory-adapter'
+import { RedisChatAdapter } from './cluster/redis-adapter'
+import { ChatRateLimiter } from './rate-limiter'
+import { ChatTokenIssuer } from './auth'
+import { WebhookDispatcher } from './webhook'
+import { BUILT_IN_CHANNELS, GetChannelEventName, IChannelSettings, MergeChannelSettings, ParseChannelSettings } from './channels'
+import { ChatProfanityFilter, IProfanityWordList, IsProfanityFilterMode, ProfanityFilterMode } from './profanity-filter'
+import { FORGOTTEN_USER_ID, IChatStorage, IGroupRecord, IMessageQuery, IMessageRange, IMessageRecord, IReportRecord, IUserGroupInvitationRecord, IUserGroupRecord, IUserLastReadRecord } from './storage/storage'
+import { MemoryChatStorage } from './storage/memory-storage'
+import { PrismaChatStorage } from './storage/prisma-storage'
+import { ChatLogger, IsLogLevel, LogLevel } from './logger'
+import { MetricRegistry } from './metrics'
+import { FormatCsv } from './csv'
+
+enum GroupRole {
+    Member = 0,
+    Moderator = 1,
+    Owner = 2,
+}
+
+enum ErrorCode {
+    InternalError = "internal-error",
+    InvalidData = "invalid-data",
+    InvalidUser = "invalid-user",
+    InvalidToken = "invalid-token",
+    TokenExpired = "token-expired",
+    TokenRevoked = "token-revoked",
+    NotValidated = "not-validated",
+    NoPermission = "no-permission",
+    UserNotFound = "user-not-found",
+    UserOffline = "user-offline",
+    GroupNotFound = "group-not-found",
+    NotGroupMember = "not-group-member",
+    InvitationNotFound = "invitation-not-found",
+    InvitationExpired = "invitation-expired",
+    TooManyInvitations = "too-many-invitations",
+    InvalidRole = "invalid-role",
+    RateLimited = "rate-limited",
+    Muted = "muted",
+    Banned = "banned",
+    Blocked = "blocked",
+    Profanity = "profanity",
+    MessageNotFound = "message-not-found",
+    AlreadyReported = "already-reported",
+    ChannelNotFound = "channel-not-found",
+    NotChannelMember = "not-channel-member",
+    ChannelFull = "channel-full",
+    GroupFull = "group-full",
+    TooManyReactions = "too-many-reactions",
+    ServerRestarting = "server-restarting",
+    SessionExpired = "session-expired",
+}
+
+type ChatSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, IClientData>
+type EventHandler<E extends ClientEventName> = (data: ClientEventData<E>) => Promise<ErrorCode | void>
+type RouteMethod = "get" | "post"
+type RouteHandler<P extends AdminRoutePath> = (data: AdminRouteData<P>, res: express.Response) => Promise<void>
+
+// Mentioned users who will be notified per message
+const MAX_MENTIONS = 10
+// Different emojis which a user can react to a message with
+const MAX_USER_REACTIONS = 10
+// Messages which are read per query by exports
+const EXPORT_PAGE_SIZE = 1000
+
+export interface IChatServerConfig {
+    port: number
+    useHttps: boolean
+    keyFilePath: string
+    certFilePath: string
+    httpsPort: number
+    // Keys which game-server uses to call admin routes, the first key also signs client tokens
+    secretKeys: Array<string>
+    tokenExpiresIn: number
+    // Seconds, resume tokens can be used only if the user was disconnected within `resumeWindow` seconds, 0 = disabled
+    resumeTokenExpiresIn: number
+    resumeWindow: number
+    // Seconds that clients are told to wait before reconnecting, when the server is stopping
+    restartRetryAfter: number
+    // Seconds to wait for events which are being handled, when the server is stopping
+    shutdownTimeout: number
+    // 0 = invite, 1 = add immediately
+    groupUserAddMode: number
+    // Seconds, 0 = never expires
+    invitationExpiresIn: number
+    // Per group, 0 = unlimited
+    maxPendingInvitations: number
+    // 0 = unlimited
+    maxGroupMembers: number
+    // What to do when the last member left: "archive", "delete" or "keep"
+    emptyGroupAction: string
+    historyPageSize: number
+    localChatDistance: number
+    localChatUse2D: boolean
+    maxMessageLength: number
+    clusterAdapter: string
+    redisUrl: string
+    redisKeyPrefix: string
+    storageType: string
+    rateLimits: { [channel: string]: { capacity: number, refillPerSecond: number } }
+    channelRateLimit: { capacity: number, refillPerSecond: number }
+    duplicateMessageWindow: number
+    floodMuteViolations: number
+    floodViolationWindow: number
+    floodMuteDuration: number
+    // Bad words of the default locale, other locales' words are managed by admin routes
+    badWords: Array<string>
+    profanityWholeWord: boolean
+    profanityGrawlix: string
+    profanityDefaultLocale: string
+    profanityFilterMode: ProfanityFilterMode
+    channelConfigs: Array<IChannelSettings>
+    // Seconds that messages of channels which don't retain history are kept, so they can still be reported, edited and reacted
+    channelMessageRetention: number
+    reportContextSize: number
+    typingTimeout: number
+    signalRateLimits: { [channel: string]: { capacity: number, refillPerSecond: number } }
+    webhookUrls: Array<string>
+    webhookSecret: string
+    webhookMaxAttempts: number
+    webhookRetryDelay: number
+    webhookMaxRetryDelay: number
+    webhookTimeout: number
+    // Log every HTTP requests
+    logRequests: boolean
+    logLevel: LogLevel
+}
+
+// Injected adapter and storage won't be closed when the server stops, so they can be shared, such as memory adapters which use the same store
+export interface IChatServerDependencies {
+    adapter?: IChatAdapter
+    storage?: IChatStorage
+}
+
+export interface IChatServer {
+    app: express.Express
+    io: Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, IClientData>
+    logger: ChatLogger
+    // Load data and listen, returns HTTP port which is listened, it can be used when the port was set to 0
+    start(): Promise<number>
+    stop(): Promise<void>
+}
+
+// Settings are documented in .env.example
+export function LoadChatServerConfig(env: { [key: string]: string | undefined }, badWords: Array<string> = []): IChatServerConfig {
+    return {
+        port: Number(env.SERVER_PORT || 8000),
+        useHttps: Number(env.USE_HTTPS || 0) > 0,
+        keyFilePath: env.HTTPS_KEY_FILE_PATH || '',
+        certFilePath: env.HTTPS_CERT_FILE_PATH || '',
+        httpsPort: Number(env.HTTPS_SERVER_PORT || 8080),
+        secretKeys: JSON.parse(env.SECRET_KEYS || '[]'),
+        tokenExpiresIn: Number(env.TOKEN_EXPIRES_IN || 3600),
+        resumeTokenExpiresIn: Number(env.RESUME_TOKEN_EXPIRES_IN || 86400),
+        resumeWindow: Number(env.RESUME_WINDOW || 120),
+        restartRetryAfter: Number(env.RESTART_RETRY_AFTER || 5),
+        shutdownTimeout: Number(env.SHUTDOWN_TIMEOUT || 10),
+        groupUserAddMode: Number(env.GROUP_USER_ADD_MODE || 0),
+        invitationExpiresIn: Number(env.INVITATION_EXPIRES_IN || 604800),
+        maxPendingInvitations: Number(env.MAX_PENDING_INVITATIONS || 50),
+        maxGroupMembers: Number(env.MAX_GROUP_MEMBERS || 0),
+        emptyGroupAction: env.EMPTY_GROUP_ACTION || 'archive',
+        historyPageSize: Number(env.HISTORY_PAGE_SIZE || 50),
+        localChatDistance: Number(env.LOCAL_CHAT_DISTANCE || 0),
+        localChatUse2D: Number(env.LOCAL_CHAT_USE_2D || 0) > 0,
+        maxMessageLength: Number(env.MAX_MESSAGE_LENGTH || 500),
+        clusterAdapter: env.CLUSTER_ADAPTER || 'memory',
+        redisUrl: env.REDIS_URL || 'redis://localhost:6379',
+        redisKeyPrefix: env.REDIS_KEY_PREFIX || 'chat:',
+        storageType: env.STORAGE || 'mysql',
+        rateLimits: JSON.parse(env.RATE_LIMITS || '{"local":{"capacity":5,"refillPerSecond":1},"global":{"capacity":3,"refillPerSecond":0.2},"whisper":{"capacity":5,"refillPerSecond":1},"group":{"capacity":5,"refillPerSecond":1}}'),
+        channelRateLimit: JSON.parse(env.CHANNEL_RATE_LIMIT || '{"capacity":5,"refillPerSecond":1}'),
+        duplicateMessageWindow: Number(env.DUPLICATE_MESSAGE_WINDOW || 10),
+        floodMuteViolations: Number(env.FLOOD_MUTE_VIOLATIONS || 5),
+        floodViolationWindow: Number(env.FLOOD_VIOLATION_WINDOW || 30),
+        floodMuteDuration: Number(env.FLOOD_MUTE_DURATION || 60),
+        badWords: badWords,
+        profanityWholeWord: Number(env.PROFANITY_WHOLE_WORD || 0) > 0,
+        profanityGrawlix: env.PROFANITY_GRAWLIX || '*****',
+        profanityDefaultLocale: (env.PROFANITY_DEFAULT_LOCALE || 'en').toLowerCase(),
+        // Fail at startup, unknown modes would send messages as they are
+        profanityFilterMode: z.enum(["censor", "reject", "off"]).parse(env.PROFANITY_FILTER_MODE || 'censor'),
+        channelConfigs: JSON.parse(env.CHANNELS || '[]'),
+        channelMessageRetention: Number(env.CHANNEL_MESSAGE_RETENTION || 86400),
+        reportContextSize: Number(env.REPORT_CONTEXT_SIZE || 10),
+        typingTimeout: Number(env.TYPING_TIMEOUT || 5),
+        signalRateLimits: JSON.parse(env.SIGNAL_RATE_LIMITS || '{"typing":{"capacity":5,"refillPerSecond":1},"read-receipt":{"capacity":10,"refillPerSecond":2},"report":{"capacity":3,"refillPerSecond":0.05},"edit":{"capacity":5,"refillPerSecond":0.5},"reaction":{"capacity":10,"refillPerSecond":2}}'),
+        webhookUrls: JSON.parse(env.WEBHOOK_URLS || '[]'),
+        webhookSecret: env.WEBHOOK_SECRET || '',
+        webhookMaxAttempts: Number(env.WEBHOOK_MAX_ATTEMPTS || 10),
+        webhookRetryDelay: Number(env.WEBHOOK_RETRY_DELAY || 5),
+        webhookMaxRetryDelay: Number(env.WEBHOOK_MAX_RETRY_DELAY || 3600),
+        webhookTimeout: Number(env.WEBHOOK_TIMEOUT || 10),
+        logRequests: Number(env.LOG_REQUESTS || 1) > 0,
+        logLevel: IsLogLevel(env.LOG_LEVEL) ? env.LOG_LEVEL : 'info',
+    }
+}
+
+// Correlation ID can be set by callers, so their logs can be matched with logs of this server
+function GetCorrelationId(value: any) {
+    if (typeof value === "string" && /^[\w-]{1,64}$/.test(value)) {
+        return value
+    }
+    return nanoid()
+}
+
+// Milliseconds since epoch or ISO 8601 text, returns `null` if it is invalid
+function ParseTime(value: any) {
+    const text = String(value)
+    const time = /^\d+$/.test(text) ? new Date(Number(text)) : new Date(text)
+    return isNaN(time.getTime()) ? null : time
+}
+
+export function CreateChatServer(config: IChatServerConfig, dependencies: IChatServerDependencies = {}): IChatServer {
+    const logger = new ChatLogger(config.logLevel)
+    const metrics = new MetricRegistry()
+    const messageCounter = metrics.counter("chat_messages_total", "Messages which were sent, by channel")
+    const rejectedValidationCounter = metrics.counter("chat_rejected_validations_total", "Socket handshakes and admin requests which were rejected, by source and code")
+    const rateLimitCounter = metrics.counter("chat_rate_limited_total", "Messages and signals which were rejected by rate limits, by channel and reason")
+    const eventErrorCounter = metrics.counter("chat_event_errors_total", "Socket events which failed by unexpected errors, by event")
+    const routeErrorCounter = metrics.counter("chat_route_errors_total", "HTTP requests which failed by unexpected errors, by path")
+    const storageQueryHistogram = metrics.histogram("chat_storage_query_duration_seconds", "Duration of Prisma queries, by model and action")
+    const app = express()
+    app.use(cors())
+    const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, IClientData>()
+    const httpServer = http.createServer(app)
+    io.attach(httpServer)
+    let httpsServer: https.Server | null = null
+    if (config.useHttps) {
+        httpsServer = https.createServer({
+            key: fs.readFileSync(config.keyFilePath),
+            cert: fs.readFileSync(config.certFilePath),
+        }, app)
+        io.attach(httpsServer)
+    }
+
+    // Presence and fan-out are shared by every server instances through the adapter,
+    // collections below contain only sockets which are connected to this instance
+    const adapter: IChatAdapter = dependencies.adapter || (config.clusterAdapter == 'redis' ? new RedisChatAdapter(config.redisUrl, config.redisKeyPrefix, undefined, logger.child({ component: "redis" })) : new MemoryChatAdapter())
+    // Memory storage can't be shared between instances, so it is used with memory cluster adapter only
+    const storage: IChatStorage = dependencies.storage || (config.storageType == 'memory' ? new MemoryChatStorage() : new PrismaChatStorage(undefined, (model, action, duration) => {
+        storageQueryHistogram.observe(duration, { model: model, action: action })
+    }))
+    const connections: { [id: string]: ChatSocket } = {}
+    const connectionsByGroupId: { [groupId: string]: { [id: string]: ChatSocket } } = {}
+    const connectionsByChannelId: { [channelId: string]: { [id: string]: ChatSocket } } = {}
+    // Channels which are defined by config, admin routes can override them
+    const configChannels: Array<IChannelSettings> = []
+    for (const channelConfig of config.channelConfigs) {
+        const channel = ParseChannelSettings(channelConfig)
+        if (!channel) {
+            throw new Error("Invalid channel settings: " + JSON.stringify(channelConfig))
+        }
+        configChannels.push(channel)
+    }
+    let channels: { [channelId: string]: IChannelSettings } = MergeChannelSettings([BUILT_IN_CHANNELS, configChannels])
+    // Last time that the user posted to the channel, used by slow mode
+    const channelPostedAt: { [id: string]: { [channelId: string]: number } } = {}
+    const positions: { [id: string]: IPosition } = {}
+    // Moderation data of users which are connected to this instance, mute expiry is `null` if it is permanent
+    const mutes: { [id: string]: number | null } = {}
+    const blockedUserIds: { [id: string]: { [blockUserId: string]: boolean } } = {}
+    // Typing state by user ID then conversation key, it will be stopped when the timer fires
+    const typingStates: { [id: string]: { [key: string]: { groupId?: string, targetUserId?: string, timer: NodeJS.Timeout } } } = {}
+    const profanityFilter = new ChatProfanityFilter({
+        wholeWord: config.profanityWholeWord,
+        grawlix: config.profanityGrawlix,
+        defaultLocale: config.profanityDefaultLocale,
+    })
+    const tokenIssuer = new ChatTokenIssuer(config.secretKeys, config.tokenExpiresIn)
+    const clientEventSchemas = CreateClientEventSchemas({
+        maxMessageLength: config.maxMessageLength,
+    })
+    const adminRouteSchemas = CreateAdminRouteSchemas({
+        maxMessageLength: config.maxMessageLength,
+    })
+    const rateLimiter = new ChatRateLimiter({
+        limits: config.rateLimits,
+        defaultLimit: config.channelRateLimit,
+        duplicateWindowMs: config.duplicateMessageWindow * 1000,
+        muteViolations: config.floodMuteViolations,
+        violationWindowMs: config.floodViolationWindow * 1000,
+        muteDurationMs: config.floodMuteDuration * 1000,
+    })
+    // Typing indicators and read receipts are not chat messages, so they are limited separately without duplicate checking and muting
+    const signalRateLimiter = new ChatRateLimiter({
+        limits: config.signalRateLimits,
+        duplicateWindowMs: 0,
+        muteViolations: 0,
+        violationWindowMs: 0,
+        muteDurationMs: 0,
+    })
+    // Values of this instance only, each instance has to be scraped
+    metrics.gauge("chat_connected_sockets", "Sockets which are connected to this instance", () => io.of("/").sockets.size)
+    metrics.gauge("chat_connected_users", "Users who are connected to this instance", () => Object.keys(connections).length)
+    metrics.gauge("chat_active_groups", "Groups which have members connected to this instance", () => Object.keys(connectionsByGroupId).length)
+    const webhook = new WebhookDispatcher(storage, {
+        urls: config.webhookUrls,
+        secret: config.webhookSecret,
+        maxAttempts: config.webhookMaxAttempts,
+        retryDelayMs: config.webhookRetryDelay * 1000,
+        maxRetryDelayMs: config.webhookMaxRetryDelay * 1000,
+        requestTimeoutMs: config.webhookTimeout * 1000,
+        batchSize: 50,
+    }, logger.child({ component: "webhook" }))
+    // Timers which are started by `start()`, they will be cleared when the server stops
+    const intervals: Array<NodeJS.Timeout> = []
+    // Set when the server has started, and until it is stopping
+    let ready = false
+    // Events and disconnections which are being handled, the server waits for their database writes when it is stopping
+    const pendingTasks = new Set<Promise<void>>()
+
+    app.use((req, res, next) => {
+        const correlationId = GetCorrelationId(req.headers['x-correlation-id'])
+        res.locals.correlationId = correlationId
+        res.setHeader('X-Correlation-Id', correlationId)
+        if (config.logRequests) {
+            const startedAt = Date.now()
+            res.on('finish', () => {
+                logger.info("HTTP request", {
+                    correlationId: correlationId,
+                    method: req.method,
+                    path: req.path,
+                    status: res.statusCode,
+                    durationMs: Date.now() - startedAt,
+                })
+            })
+        }
+        next()
+    })
+    app.use(bodyParser.json())
+
+    function SocketLogger(socket: ChatSocket) {
+        return logger.child({
+            correlationId: socket.data.correlationId,
+            socketId: socket.id,
+            userId: socket.data.userId,
+        })
+    }
+
+    function HandleClusterMessage(message: ClusterMessage) {
+        switch (message.type) {
+            case "emit-all":
+                for (const targetUserId in connections) {
+                    if (message.senderId && IsBlocked(targetUserId, message.senderId)) {
+                        continue
+                    }
+                    connections[targetUserId].emit(message.event, message.data)
+                }
+                break
+            case "emit-user":
+                if (Object.prototype.hasOwnProperty.call(connections, message.userId)) {
+                    connections[message.userId].emit(message.event, message.data)
+                }
+                break
+            case "emit-group":
+                if (Object.prototype.hasOwnProperty.call(connectionsByGroupId, message.groupId)) {
+                    const targetClients = connectionsByGroupId[message.groupId]
+                    for (const targetUserId in targetClients) {
+                        if (message.senderId && IsBlocked(targetUserId, message.senderId)) {
+                            continue
+                        }
+                        targetClients[targetUserId].emit(message.event, message.data)
+                    }
+                }
+                break
+            case "emit-local":
+                for (const targetUserId in connections) {
+                    // Sender always receives its own message
+                    if (targetUserId != message.userId) {
+                        if (!Object.prototype.hasOwnProperty.call(positions, targetUserId)) {
+                            continue
+                        }
+                        if (!IsInLocalChatRange(message.position, positions[targetUserId])) {
+                            continue
+                        }
+                        if (IsBlocked(targetUserId, message.userId)) {
+                            continue
+                        }
+                    }
+                    connections[targetUserId].emit(message.event, message.data)
+                }
+                break
+            case "group-add":
+                if (Object.prototype.hasOwnProperty.call(connections, message.userId)) {
+                    if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId, message.groupId)) {
+                        connectionsByGroupId[message.groupId] = {}
+                    }
+                    connectionsByGroupId[message.groupId][message.userId] = connections[message.userId]
+                }
+                break
+            case "group-remove":
+                if (Object.prototype.hasOwnProperty.call(connectionsByGroupId, message.groupId)) {
+                    delete connectionsByGroupId[message.groupId][message.userId]
+                    if (Object.keys(connectionsByGroupId[message.groupId]).length == 0) {
+                        delete connectionsByGroupId[message.groupId]
+                    }
+                }
+                break
+            case "emit-channel":
+                if (Object.prototype.hasOwnProperty.call(connectionsByChannelId, message.channelId)) {
+                    const targetClients = connectionsByChannelId[message.channelId]
+                    for (const targetUserId in targetClients) {
+                        if (message.senderId && IsBlocked(targetUserId, message.senderId)) {
+                            continue
+                        }
+                        targetClients[targetUserId].emit(message.event, message.data)
+                    }
+                }
+                break
+            case "channel-add":
+                if (Object.prototype.hasOwnProperty.call(connections, message.userId)) {
+                    if (!Object.prototype.hasOwnProperty.call(connectionsByChannelId, message.channelId)) {
+                        connectionsByChannelId[message.channelId] = {}
+                    }
+                    connectionsByChannelId[message.channelId][message.userId] = connections[message.userId]
+                }
+                break
+            case "channel-remove":
+                if (Object.prototype.hasOwnProperty.call(connectionsByChannelId, message.channelId)) {
+                    delete connectionsByChannelId[message.channelId][message.userId]
+                }
+                break
+            case "channel-reload":
+                LoadChannels().catch((error) => {
+                    logger.error("Unable to reload channels", { error: error })
+                })
+                break
+            case "disconnect-user":
+                // Instance which the newer socket is connected to has disconnected its older socket already
+                if (message.nodeId == adapter.nodeId) {
+                    break
+                }
+                // Disconnect older socket which is connected to this instance
+                if (Object.prototype.hasOwnProperty.call(connections, message.userId) && connections[message.userId].id != message.socketId) {
+                    DisconnectLocalSocket(connections[message.userId], "Disconnect the socket because newer client is connecting with the same user ID")
+                }
+                break
+            case "revoke-token":
+                if (Object.prototype.hasOwnProperty.call(connections, message.userId) && connections[message.userId].data.tokenId == message.tokenId) {
+                    DisconnectLocalSocket(connections[message.userId], "Disconnect the socket because its token was revoked")
+                }
+                break
+            case "mute":
+                if (Object.prototype.hasOwnProperty.call(connections, message.userId)) {
+                    if (message.muted) {
+                        mutes[message.userId] = message.expiresAt
+                    } else {
+                        delete mutes[message.userId]
+                    }
+                }
+                break
+            case "profanity-reload":
+                LoadProfanityWords().catch((error) => {
+                    logger.error("Unable to reload profanity words", { error: error })
+                })
+                break
+        }
+    }
+
+    async function EmitToAll<Ev extends keyof ServerToClientEvents>(event: Ev, data: Parameters<ServerToClientEvents[Ev]>[0], senderId?: string) {
+        await adapter.publish({
+            type: "emit-all",
+            event: event,
+            data: data,
+            senderId: senderId,
+        })
+    }
+
+    async function EmitToUser<Ev extends keyof ServerToClientEvents>(userId: string, event: Ev, data: Parameters<ServerToClientEvents[Ev]>[0]) {
+        await adapter.publish({
+            type: "emit-user",
+            userId: userId,
+            event: event,
+            data: data,
+        })
+    }
+
+    async function EmitToGroup<Ev extends keyof ServerToClientEvents>(groupId: string, event: Ev, data: Parameters<ServerToClientEvents[Ev]>[0], senderId?: string) {
+        await adapter.publish({
+            type: "emit-group",
+            groupId: groupId,
+            event: event,
+            data: data,
+            senderId: senderId,
+        })
+    }
+
+    // Words from config (badWords.json) are bad words of the default locale, other words are managed by admin routes
+    async function LoadProfanityWords() {
+        const lists: { [locale: string]: IProfanityWordList } = {}
+        lists[config.profanityDefaultLocale] = {
+            locale: config.profanityDefaultLocale,
+            words: config.badWords.slice(),
+            allowedWords: [],
+        }
+        const profanityWords = await storage.getProfanityWords()
+        for (const profanityWord of profanityWords) {
+            if (!Object.prototype.hasOwnProperty.call(lists, profanityWord.locale)) {
+                lists[profanityWord.locale] = {
+                    locale: profanityWord.locale,
+                    words: [],
+                    allowedWords: [],
+                }
+            }
+            if (profanityWord.allowed) {
+                lists[profanityWord.locale].allowedWords.push(profanityWord.word)
+            } else {
+                lists[profanityWord.locale].words.push(profanityWord.word)
+            }
+        }
+        const list: Array<IProfanityWordList> = []
+        for (const locale in lists) {
+            list.push(lists[locale])
+        }
+        profanityFilter.load(list)
+    }
+
+    // Returns filtered message, or `null` if the message has to be rejected
+    function FilterProfanity(socket: ChatSocket, msg: string, mode: ProfanityFilterMode) {
+        return profanityFilter.filter(msg, mode, socket.data.locale)
+    }
+
+    async function GetGroupProfanityFilter(groupId: string): Promise<ProfanityFilterMode> {
+        const group = await storage.getGroup(groupId)
+        if (!group || !IsProfanityFilterMode(group.profanityFilter)) {
+            return config.profanityFilterMode
+        }
+        return group.profanityFilter
+    }
+
+    function IsBlocked(userId: string, senderId: string) {
+        return Object.prototype.hasOwnProperty.call(blockedUserIds, userId) && blockedUserIds[userId][senderId]
+    }
+
+    function IsMuted(userId: string) {
+        if (!Object.prototype.hasOwnProperty.call(mutes, userId)) {
+            return false
+        }
+        const expiresAt = mutes[userId]
+        if (expiresAt !== null && expiresAt <= Date.now()) {
+            delete mutes[userId]
+            return false
+        }
+        return true
+    }
+
+    async function GetActiveModeration(userId: string, type: string) {
+        return await storage.getActiveModeration(userId, type, new Date())
+    }
+
+    async function AddModeration(userId: string, type: string, duration: number, reason: string | undefined) {
+        // New one replaces the active one
+        await RevokeModeration(userId, type)
+        const moderation = await storage.createModeration({
+            userId: userId,
+            type: type,
+            reason: reason,
+            expiresAt: duration > 0 ? new Date(Date.now() + duration * 1000) : null,
+        })
+        if (type == "mute") {
+            await adapter.publish({
+                type: "mute",
+                userId: userId,
+                muted: true,
+                expiresAt: moderation.expiresAt ? moderation.expiresAt.getTime() : null,
+            })
+        }
+        if (type == "ban") {
+            // Kick banned user out, banned user's token will be rejected when reconnecting
+            await adapter.publish({
+                type: "disconnect-user",
+                userId: userId,
+                socketId: "",
+            })
+        }
+        return moderation
+    }
+
+    async function RevokeModeration(userId: string, type: string) {
+        const count = await storage.revokeModerations(userId, type, new Date())
+        if (type == "mute") {
+            await adapter.publish({
+                type: "mute",
+                userId: userId,
+                muted: false,
+                expiresAt: null,
+            })
+        }
+        return count
+    }
+
+    async function LoadUserModeration(userId: string) {
+        const mute = await GetActiveModeration(userId, "mute")
+        if (mute) {
+            mutes[userId] = mute.expiresAt ? mute.expiresAt.getTime() : null
+        } else {
+            delete mutes[userId]
+        }
+        const userBlocks = await storage.getUserBlocks(userId)
+        blockedUserIds[userId] = {}
+        for (const userBlock of userBlocks) {
+            blockedUserIds[userId][userBlock.blockUserId] = true
+        }
+    }
+
+    async function NotifyBlockList(userId: string) {
+        const list = await storage.getUserBlocks(userId)
+        const userIds: Array<string> = []
+        for (const userBlock of list) {
+            userIds.push(userBlock.blockUserId)
+        }
+        const users = await storage.getUsers(userIds)
+        const userList: Array<IUserData> = []
+        for (const user of users) {
+            userList.push({
+                "userId": user.userId,
+                "name": user.name,
+                "iconUrl": user.iconUrl,
+            })
+        }
+        await EmitToUser(userId, "block-list", {
+            list: userList
+        })
+    }
+
+    async function SaveMessage(channel: string, groupId: string | undefined, userId: string, userId2: string | undefined, msg: string, rawMsg: string, delivered: boolean = true, replyToId?: number) {
+        messageCounter.inc({ channel: channel })
+        return await storage.createMessage({
+            channel: channel,
+            groupId: groupId,
+            userId: userId,
+            userId2: userId2,
+            msg: msg,
+            // Keep uncensored message for reports, it is not stored if it was not censored
+            rawMsg: rawMsg != msg ? rawMsg : null,
+            delivered: delivered,
+            replyToId: replyToId,
+        })
+    }
+
+    function IsSameConversation(message: IMessageRecord, channel: string, groupId: string | undefined, userId: string, userId2: string | undefined) {
+        if (message.channel != channel) {
+            return false
+        }
+        if (channel == "group") {
+            return message.groupId == groupId
+        }
+        if (channel == "whisper") {
+            return (message.userId == userId && message.userId2 == userId2) || (message.userId == userId2 && message.userId2 == userId)
+        }
+        return true
+    }
+
+    // Replied message must be in the same conversation
+    async function CheckReply(replyToId: number | undefined, channel: string, groupId: string | undefined, userId: string, userId2: string | undefined): Promise<ErrorCode | void> {
+        if (replyToId === undefined) {
+            return
+        }
+        const message = await storage.getMessage(replyToId)
+        if (!message || message.deletedAt || !IsSameConversation(message, channel, groupId, userId, userId2)) {
+            return ErrorCode.MessageNotFound
+        }
+    }
+
+    async function CanSeeMessage(userId: string, message: IMessageRecord) {
+        if (message.channel == "group") {
+            return await GetGroupRole(message.groupId!, userId) !== null
+        }
+        if (message.channel == "whisper") {
+            return message.userId == userId || message.userId2 == userId
+        }
+        if (!Object.prototype.hasOwnProperty.call(channels, message.channel)) {
+            return false
+        }
+        if (channels[message.channel].scope == "members") {
+            const userChannels = await storage.getUserChannels(userId)
+            return userChannels.some(userChannel => userChannel.channelId == message.channel)
+        }
+        return true
+    }
+
+    // Recipients of local messages depend on positions at the time they were sent, so changes can't be sent to the same recipients
+    function IsChangeableMessage(message: IMessageRecord) {
+        if (message.channel == "group" || message.channel == "whisper") {
+            return true
+        }
+        return Object.prototype.hasOwnProperty.call(channels, message.channel) && channels[message.channel].scope != "local"
+    }
+
+    // Send changes of the message to users who received it, blocked users are skipped as they were
+    async function EmitToMessageRecipients<Ev extends keyof ServerToClientEvents>(message: IMessageRecord, event: Ev, data: Parameters<ServerToClientEvents[Ev]>[0]) {
+        if (message.channel == "group") {
+            await EmitToGroup(message.groupId!, event, data, message.userId)
+            return
+        }
+        if (message.channel == "whisper") {
+            await EmitToUser(message.userId, event, data)
+            await EmitToUser(message.userId2!, event, data)
+            return
+        }
+        if (!Object.prototype.hasOwnProperty.call(channels, message.channel)) {
+            return
+        }
+        switch (channels[message.channel].scope) {
+            case "everyone":
+                await EmitToAll(event, data, message.userId)
+                break
+            case "members":
+                await adapter.publish({
+                    type: "emit-channel",
+                    channelId: message.channel,
+                    event: event,
+                    data: data,
+                    senderId: message.userId,
+                })
+                break
+        }
+    }
+
+    // Online users who are mentioned by `@name` and can see the message
+    async function FindMentions(message: IMessageRecord) {
+        const mentions: Array<string> = []
+        const pattern = /@([^\s@]+)/g
+        let match: RegExpExecArray | null
+        while ((match = pattern.exec(message.msg)) !== null && mentions.length < MAX_MENTIONS) {
+            const presence = await adapter.getPresenceByName(match[1])
+            if (!presence || presence.userId == message.userId || mentions.indexOf(presence.userId) >= 0) {
+                continue
+            }
+            if (await IsBlockedBy(message.userId, presence.userId)) {
+                continue
+            }
+            if (!await CanSeeMessage(presence.userId, message)) {
+                continue
+            }
+            mentions.push(presence.userId)
+        }
+        return mentions
+    }
+
+    async function NotifyMentions(message: IMessageRecord, name: string, mentions: Array<string>) {
+        for (const userId of mentions) {
+            await EmitToUser(userId, "mention", {
+                "messageId": message.messageId,
+                "channel": message.channel,
+                "groupId": message.groupId,
+                "userId": message.userId,
+                "name": name,
+                "msg": message.msg,
+                "createdAt": message.createdAt,
+            })
+        }
+    }
+
+    async function SetReaction(socket: ChatSocket, messageId: number, emoji: string, added: boolean): Promise<ErrorCode | void> {
+        const userId = socket.data.userId
+        if (!userId) {
+            return ErrorCode.NotValidated
+        }
+        const rateLimitError = CheckSignalRateLimit(userId, "reaction")
+        if (rateLimitError) {
+            return rateLimitError
+        }
+        const message = await storage.getMessage(messageId)
+        if (!message || message.deletedAt || !await CanSeeMessage(userId, message)) {
+            return ErrorCode.MessageNotFound
+        }
+        if (!IsChangeableMessage(message)) {
+            return ErrorCode.InvalidData
+        }
+        if (added) {
+            const reactions = await storage.getReactions([messageId])
+            if (reactions.filter(reaction => reaction.userId == userId).length >= MAX_USER_REACTIONS) {
+                return ErrorCode.TooManyReactions
+            }
+        }
+        const changed = added ? await storage.addReaction(messageId, userId, emoji) : await storage.removeReaction(messageId, userId, emoji)
+        if (!changed) {
+            return
+        }
+        await EmitToMessageRecipients(message, "reaction", {
+            "messageId": messageId,
+            "channel": message.channel,
+            "groupId": message.groupId,
+            "userId": userId,
+            "emoji": emoji,
+            "added": added,
+        })
+    }
+
+    async function GetMessageHistory(query: IMessageQuery, cursor: any, limit: any) {
+        // Clamp page size, client can ask for less but not more than configured
+        let take = Number(limit || config.historyPageSize)
+        if (!(take > 0) || take > config.historyPageSize) {
+            take = config.historyPageSize
+        }
+        // Cursor is ID of the oldest message from previous page, find one more entry to know that there are older messages or not
+        const messages = await storage.getMessages(query, {
+            beforeMessageId: cursor ? Number(cursor) : undefined,
+            descending: true,
+            take: take + 1,
+        })
+        let nextCursor: number | null = null
+        if (messages.length > take) {
+            messages.pop()
+            nextCursor = messages[messages.length - 1].messageId
+        }
+        const reactions: { [messageId: number]: Array<IReactionData> } = {}
+        for (const reaction of await storage.getReactions(messages.map(message => message.messageId))) {
+            if (!Object.prototype.hasOwnProperty.call(reactions, reaction.messageId)) {
+                reactions[reaction.messageId] = []
+            }
+            let reactionData = reactions[reaction.messageId].find(reactionData => reactionData.emoji == reaction.emoji)
+            if (!reactionData) {
+                reactionData = {
+                    emoji: reaction.emoji,
+                    userIds: [],
+                }
+                reactions[reaction.messageId].push(reactionData)
+            }
+            reactionData.userIds.push(reaction.userId)
+        }
+        // Don't send uncensored message, and text of deleted messages to clients
+        const list: Array<IMessageData> = []
+        for (const message of messages) {
+            list.push({
+                messageId: message.messageId,
+                channel: message.channel,
+                groupId: message.groupId,
+                userId: message.userId,
+                userId2: message.userId2,
+                msg: message.deletedAt ? "" : message.msg,
+                replyToId: message.replyToId,
+                reactions: reactions[message.messageId] || [],
+                editedAt: message.editedAt,
+                deletedAt: message.deletedAt,
+                createdAt: message.createdAt,
+            })
+        }
+        return {
+            list: list,
+            nextCursor: nextCursor,
+        }
+    }
+
+    // Messages around the reported message, with uncensored text
+    async function GetReportContext(message: IMessageRecord) {
+        const query: IMessageQuery = {
+            channel: message.channel,
+        }
+        if (message.channel == "group") {
+            query.groupId = message.groupId!
+        } else if (message.channel == "whisper") {
+            query.betweenUserIds = [message.userId, message.userId2!]
+        }
+        const before = await storage.getMessages(query, {
+            beforeMessageId: message.messageId,
+            descending: true,
+            take: config.reportContextSize,
+        })
+        const after = await storage.getMessages(query, {
+            afterMessageId: message.messageId,
+            take: config.reportContextSize,
+        })
+        before.reverse()
+        const context: Array<{ messageId: number, userId: string, userId2: string | null, msg: string, createdAt: Date }> = []
+        for (const contextMessage of before.concat([message], after)) {
+            context.push({
+                messageId: contextMessage.messageId,
+                userId: contextMessage.userId,
+                userId2: contextMessage.userId2,
+                msg: contextMessage.rawMsg || contextMessage.msg,
+                createdAt: contextMessage.createdAt,
+            })
+        }
+        return context
+    }
+
+    // Exports may contain more messages than a query should return, so they are read page by page
+    async function GetAllMessages(query: IMessageQuery, range: IMessageRange = {}) {
+        const list: Array<IMessageRecord> = []
+        while (true) {
+            const page = await storage.getMessages(query, {
+                ...range,
+                afterMessageId: list.length > 0 ? list[list.length - 1].messageId : range.afterMessageId,
+                take: EXPORT_PAGE_SIZE,
+            })
+            list.push(...page)
+            if (page.length < EXPORT_PAGE_SIZE) {
+                return list
+            }
+        }
+    }
+
+    function FormatReport(report: IReportRecord) {
+        return {
+            ...report,
+            context: JSON.parse(report.context),
+        }
+    }
+
+    async function DeliverOfflineWhispers(userId: string) {
+        if (!Object.prototype.hasOwnProperty.call(connections, userId)) {
+            return
+        }
+        const socket = connections[userId]
+        const list = await storage.getMessages({
+            channel: "whisper",
+            userId2: userId,
+            delivered: false,
+        })
+        if (list.length == 0) {
+            return
+        }
+        // Find senders' name
+        const messageIds: Array<number> = []
+        const senderIds: Array<string> = []
+        for (const message of list) {
+            messageIds.push(message.messageId)
+            senderIds.push(message.userId)
+        }
+        const senders = await storage.getUsers(senderIds)
+        const senderNames: { [userId: string]: string } = {}
+        for (const sender of senders) {
+            senderNames[sender.userId] = sender.name
+        }
+        for (const message of list) {
+            // Deleted before it was delivered
+            if (message.deletedAt) {
+                continue
+            }
+            socket.emit("whisper", {
+                "messageId": message.messageId,
+                "userId": message.userId,
+                "userId2": userId,
+                "name": senderNames[message.userId],
+                "name2": socket.data.name!,
+                "msg": message.msg,
+                "replyToId": message.replyToId,
+                "mentions": [],
+                "createdAt": message.createdAt,
+            })
+        }
+        await storage.markMessagesDelivered(messageIds)
+    }
+
+    // Group messages and whispers which the resumed client missed while it was disconnected, at most a history page per conversation,
+    // whispers which were not delivered are sent by `DeliverOfflineWhispers`
+    async function SendMissedMessages(socket: ChatSocket, lastMessageId: number) {
+        const userId = socket.data.userId!
+        const range = {
+            afterMessageId: lastMessageId,
+            take: config.historyPageSize,
+        }
+        const list: Array<IMessageRecord> = []
+        const userGroups = await storage.getUserGroups(userId)
+        for (const userGroup of userGroups) {
+            list.push(...await storage.getMessages({
+                channel: "group",
+                groupId: userGroup.groupId,
+                excludeUserId: userId,
+            }, range))
+        }
+        list.push(...await storage.getMessages({
+            channel: "whisper",
+            userId2: userId,
+            delivered: true,
+        }, range))
+        if (list.length == 0) {
+            return
+        }
+        list.sort((a, b) => a.messageId - b.messageId)
+        const senders = await storage.getUsers(list.map(message => message.userId))
+        const senderNames: { [userId: string]: string } = {}
+        for (const sender of senders) {
+            senderNames[sender.userId] = sender.name
+        }
+        for (const message of list) {
+            if (message.deletedAt) {
+                continue
+            }
+            if (message.channel == "group") {
+                socket.emit("group", {
+                    "messageId": message.messageId,
+                    "groupId": message.groupId!,
+                    "userId": message.userId,
+                    "name": senderNames[message.userId],
+                    "msg": message.msg,
+                    "replyToId": message.replyToId,
+                    "mentions": [],
+                    "createdAt": message.createdAt,
+                })
+            } else {
+                socket.emit("whisper", {
+                    "messageId": message.messageId,
+                    "userId": message.userId,
+                    "userId2": userId,
+                    "name": senderNames[message.userId],
+                    "name2": socket.data.name!,
+                    "msg": message.msg,
+                    "replyToId": message.replyToId,
+                    "mentions": [],
+                    "createdAt": message.createdAt,
+                })
+            }
+        }
+    }
+
+    // New resume token for every connection, because each one can be used once
+    function NotifySession(socket: ChatSocket) {
+        if (config.resumeWindow <= 0) {
+            return
+        }
+        const issued = tokenIssuer.issueResume({
+            userId: socket.data.userId!,
+            name: socket.data.name!,
+            locale: socket.data.locale,
+            tokenId: socket.data.tokenId!,
+        }, config.resumeTokenExpiresIn)
+        socket.emit("session", {
+            "resumeToken": issued.token,
+            "expiresAt": issued.payload.exp * 1000,
+            "resumed": socket.data.resumed === true,
+        })
+    }
+
+    async function NotifyUnread(userId: string) {
+        const list: Array<IUnreadData> = []
+        const lastReads = await storage.getLastReads(userId)
+        const lastMessageIds: { [key: string]: number } = {}
+        for (const lastRead of lastReads) {
+            lastMessageIds[lastRead.channel + "_" + lastRead.targetId] = lastRead.lastMessageId
+        }
+        // Count unread group messages, not include messages which sent by the user
+        const userGroups = await storage.getUserGroups(userId)
+        for (const userGroup of userGroups) {
+            const count = await storage.countMessages({
+                channel: "group",
+                groupId: userGroup.groupId,
+                excludeUserId: userId,
+            }, lastMessageIds["group_" + userGroup.groupId] || 0)
+            if (count > 0) {
+                list.push({
+                    "channel": "group",
+                    "groupId": userGroup.groupId,
+                    "count": count,
+                })
+            }
+        }
+        // Count unread whisper messages by senders
+        const senderIds = await storage.getWhisperSenderIds(userId)
+        for (const senderId of senderIds) {
+            const count = await storage.countMessages({
+                channel: "whisper",
+                userId: senderId,
+                userId2: userId,
+            }, lastMessageIds["whisper_" + senderId] || 0)
+            if (count > 0) {
+                list.push({
+                    "channel": "whisper",
+                    "userId": senderId,
+                    "count": count,
+                })
+            }
+        }
+        await EmitToUser(userId, "unread-list", {
+            list: list
+        })
+    }
+
+    function EmitError(socket: ChatSocket, event: string, code: ErrorCode) {
+        socket.emit("error", {
+            "event": event,
+            "code": code,
+        })
+    }
+
+    function Reply(socket: ChatSocket, event: string, ack: ((response: IAckResponse) => void) | undefined, code?: ErrorCode | void) {
+        if (code) {
+            EmitError(socket, event, code)
+        }
+        // Client may not use acknowledgement, so check it before call
+        if (typeof ack !== "function") {
+            return
+        }
+        if (code) {
+            ack({
+                "success": false,
+                "code": code,
+            })
+        } else {
+            ack({
+                "success": true,
+            })
+        }
+    }
+
+    function ParseEventData<E extends ClientEventName>(event: E, data: any): ClientEventData<E> | null {
+        const result = clientEventSchemas[event].safeParse(data || {})
+        if (!result.success) {
+            return null
+        }
+        return result.data as ClientEventData<E>
+    }
+
+    function TrackTask(task: Promise<void>) {
+        pendingTasks.add(task)
+        task.finally(() => {
+            pendingTasks.delete(task)
+        })
+    }
+
+    // Finished tasks may start other tasks, so wait until nothing is pending, or until the timeout
+    async function FlushPendingTasks(deadline: number) {
+        while (pendingTasks.size > 0) {
+            const remaining = deadline - Date.now()
+            if (remaining <= 0) {
+                logger.warn("Pending tasks were not finished before the shutdown timeout", { count: pendingTasks.size })
+                return
+            }
+            let timer: NodeJS.Timeout | null = null
+            await Promise.race([
+                Promise.all(Array.from(pendingTasks)),
+                new Promise<void>((resolve) => {
+                    timer = setTimeout(resolve, remaining)
+                }),
+            ])
+            if (timer) {
+                clearTimeout(timer)
+            }
+        }
+    }
+
+    function SetEvent<E extends ClientEventName>(socket: ChatSocket, event: E, handler: EventHandler<E>) {
+        const handle = async (data: any, ack: any) => {
+            // Client may emit with acknowledgement only, without data
+            if (typeof data === "function") {
+                ack = data
+                data = {}
+            }
+            // Reject malformed payload before it reaches the handler
+            const parsedData = ParseEventData(event, data)
+            if (!parsedData) {
+                Reply(socket, event, ack, ErrorCode.InvalidData)
+                return
+            }
+            let code: ErrorCode | void
+            try {
+                code = await handler(parsedData)
+            } catch (error) {
+                SocketLogger(socket).error("Error occurring while handling the event", { event: event, error: error })
+                eventErrorCounter.inc({ event: event })
+                code = ErrorCode.InternalError
+            }
+            Reply(socket, event, ack, code)
+        }
+        const listener = (data: any, ack: any) => {
+            TrackTask(handle(data, ack).catch((error) => {
+                SocketLogger(socket).error("Unable to reply the event", { event: event, error: error })
+            }))
+        }
+        // Generic event name defers socket.io's listener type, so it is checked against the listeners of every client event
+        socket.on<ClientEventName>(event, listener)
+    }
+
+    function CheckRateLimit(socket: ChatSocket, channel: string, msg: string): ErrorCode | void {
+        const result = rateLimiter.check(socket.data.userId!, channel, msg)
+        if (result.allowed) {
+            return
+        }
+        rateLimitCounter.inc({ channel: channel, reason: result.reason! })
+        socket.emit("rate-limited", {
+            "channel": channel,
+            "reason": result.reason!,
+            "retryAfter": result.retryAfter!,
+        })
+        return ErrorCode.RateLimited
+    }
+
+    // Built-in and config channels, overridden by channels which are managed by admin routes
+    async function LoadChannels() {
+        const list = await storage.getChannels()
+        channels = MergeChannelSettings([BUILT_IN_CHANNELS, configChannels, list])
+        // Forget members of deleted channels
+        for (const channelId in connectionsByChannelId) {
+            if (!Object.prototype.hasOwnProperty.call(channels, channelId) || channels[channelId].scope != "members") {
+                delete connectionsByChannelId[channelId]
+            }
+        }
+    }
+
+    function IsChannelMember(channelId: string, userId: string) {
+        return Object.prototype.hasOwnProperty.call(connectionsByChannelId, channelId) && Object.prototype.hasOwnProperty.call(connectionsByChannelId[channelId], userId)
+    }
+
+    async function NotifyChannelList(socket: ChatSocket) {
+        const userId = socket.data.userId!
+        const list: Array<IChannelSettings & { joined: boolean }> = []
+        for (const channelId in channels) {
+            list.push({
+                ...channels[channelId],
+                joined: IsChannelMember(channelId, userId),
+            })
+        }
+        socket.emit("channel-list", {
+            "list": list,
+        })
+    }
+
+    function CheckSlowMode(socket: ChatSocket, channel: IChannelSettings): ErrorCode | void {
+        if (channel.slowMode <= 0) {
+            return
+        }
+        const userId = socket.data.userId!
+        const now = Date.now()
+        if (!Object.prototype.hasOwnProperty.call(channelPostedAt, userId)) {
+            channelPostedAt[userId] = {}
+        }
+        const postedAt = channelPostedAt[userId][channel.channelId] || 0
+        const retryAfter = postedAt + channel.slowMode * 1000 - now
+        if (retryAfter > 0) {
+            socket.emit("rate-limited", {
+                "channel": channel.channelId,
+                "reason": "slow-mode",
+                "retryAfter": retryAfter,
+            })
+            rateLimitCounter.inc({ channel: channel.channelId, reason: "slow-mode" })
+            return ErrorCode.RateLimited
+        }
+        channelPostedAt[userId][channel.channelId] = now
+    }
+
+    async function SendChannelMessage(socket: ChatSocket, channelId: string, rawMsg: string, replyToId: number | undefined, positionData: any): Promise<ErrorCode | void> {
+        const userId = socket.data.userId
+        if (!userId) {
+            return ErrorCode.NotValidated
+        }
+        // Has the channel?
+        if (!Object.prototype.hasOwnProperty.call(channels, channelId)) {
+            return ErrorCode.ChannelNotFound
+        }
+        const channel = channels[channelId]
+        if (channel.postPermission == "none") {
+            return ErrorCode.NoPermission
+        }
+        if (channel.scope == "members" && !IsChannelMember(channelId, userId)) {
+            return ErrorCode.NotChannelMember
+        }
+        if (IsMuted(userId)) {
+            return ErrorCode.Muted
+        }
+        const rateLimitError = CheckRateLimit(socket, channelId, rawMsg)
+        if (rateLimitError) {
+            return rateLimitError
+        }
+        let position: IPosition | undefined
+        if (channel.scope == "local") {
+            // Use position from the message, or last reported one if it is not set
+            UpdatePosition(userId, positionData)
+            if (!Object.prototype.hasOwnProperty.call(positions, userId)) {
+                return ErrorCode.InvalidData
+            }
+            position = positions[userId]
+        }
+        const replyError = await CheckReply(replyToId, channelId, undefined, userId, undefined)
+        if (replyError) {
+            return replyError
+        }
+        const slowModeError = CheckSlowMode(socket, channel)
+        if (slowModeError) {
+            return slowModeError
+        }
+        const msg = FilterProfanity(socket, rawMsg, config.profanityFilterMode)
+        if (msg === null) {
+            return ErrorCode.Profanity
+        }
+        const message = await SaveMessage(channelId, undefined, userId, undefined, msg, rawMsg, true, replyToId)
+        const mentions = await FindMentions(message)
+        const event = GetChannelEventName(channelId)
+        const data: any = {
+            "messageId": message.messageId,
+            "channelId": channelId,
+            "userId": userId,
+            "name": socket.data.name!,
+            "msg": msg,
+            "replyToId": message.replyToId,
+            "mentions": mentions,
+            "createdAt": message.createdAt,
+        }
+        switch (channel.scope) {
+            case "everyone":
+                await EmitToAll(event, data, userId)
+                break
+            case "local":
+                data.map = position!.map
+                data.x = position!.x
+                data.y = position!.y
+                data.z = position!.z
+                await adapter.publish({
+                    type: "emit-local",
+                    userId: userId,
+                    position: position!,
+                    event: event,
+                    data: data,
+                })
+                break
+            case "members":
+                await adapter.publish({
+                    type: "emit-channel",
+                    channelId: channelId,
+                    event: event,
+                    data: data,
+                    senderId: userId,
+                })
+                break
+        }
+        await NotifyMentions(message, socket.data.name!, mentions)
+    }
+
+    function CheckSignalRateLimit(userId: string, channel: string): ErrorCode | void {
+        const result = signalRateLimiter.check(userId, channel, "")
+        if (!result.allowed) {
+            rateLimitCounter.inc({ channel: channel, reason: result.reason! })
+            return ErrorCode.RateLimited
+        }
+    }
+
+    async function CheckConversation(userId: string, groupId: string | undefined, targetUserId: string | undefined): Promise<ErrorCode | void> {
+        if (groupId) {
+            // Has the group?
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId, groupId)) {
+                return ErrorCode.GroupNotFound
+            }
+            // User is in the group?
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId[groupId], userId)) {
+                return ErrorCode.NotGroupMember
+            }
+        } else if (targetUserId) {
+            if (targetUserId == userId) {
+                return ErrorCode.InvalidData
+            }
+            if (await IsBlockedBy(userId, targetUserId)) {
+                return ErrorCode.Blocked
+            }
+        } else {
+            return ErrorCode.InvalidData
+        }
+    }
+
+    async function EmitTyping(userId: string, name: string, groupId: string | undefined, targetUserId: string | undefined, typing: boolean) {
+        if (groupId) {
+            await EmitToGroup(groupId, "typing", {
+                "userId": userId,
+                "name": name,
+                "groupId": groupId,
+                "typing": typing,
+            }, userId)
+        } else if (targetUserId) {
+            await EmitToUser(targetUserId, "typing", {
+                "userId": userId,
+                "name": name,
+                "typing": typing,
+            })
+        }
+    }
+
+    async function SetTyping(userId: string, name: string, groupId: string | undefined, targetUserId: string | undefined, typing: boolean) {
+        const key = groupId ? "group:" + groupId : "whisper:" + targetUserId
+        if (!Object.prototype.hasOwnProperty.call(typingStates, userId)) {
+            typingStates[userId] = {}
+        }
+        const state = typingStates[userId][key]
+        if (state) {
+            clearTimeout(state.timer)
+            delete typingStates[userId][key]
+        }
+        if (typing) {
+            // Stop typing if the client doesn't send "typing-start" again before timed out
+            typingStates[userId][key] = {
+                groupId: groupId,
+                targetUserId: targetUserId,
+                timer: setTimeout(() => {
+                    SetTyping(userId, name, groupId, targetUserId, false).catch((error) => {
+                        logger.error("Unable to stop typing", { userId: userId, error: error })
+                    })
+                }, config.typingTimeout * 1000),
+            }
+            // Already typing, just extend the timeout
+            if (state) {
+                return
+            }
+        } else if (!state) {
+            // Not typing
+            return
+        }
+        await EmitTyping(userId, name, groupId, targetUserId, typing)
+    }
+
+    async function StopAllTyping(userId: string, name: string) {
+        if (!Object.prototype.hasOwnProperty.call(typingStates, userId)) {
+            return
+        }
+        const states = typingStates[userId]
+        delete typingStates[userId]
+        for (const key in states) {
+            clearTimeout(states[key].timer)
+            await EmitTyping(userId, name, states[key].groupId, states[key].targetUserId, false)
+        }
+    }
+
+    async function GetGroupRole(groupId: string, userId: string): Promise<GroupRole | null> {
+        const userGroup = await storage.getUserGroup(userId, groupId)
+        if (!userGroup) {
+            return null
+        }
+        return userGroup.role as GroupRole
+    }
+
+    async function SetGroupRole(groupId: string, userId: string, role: GroupRole) {
+        await storage.setUserGroup(userId, groupId, role)
+        // Tell the clients that the member's role was changed
+        await EmitToGroup(groupId, "group-role", {
+            "groupId": groupId,
+            "userId": userId,
+            "role": role,
+        })
+    }
+
+    function UpdatePosition(userId: string, data: any) {
+        if (!data.map) {
+            return
+        }
+        positions[userId] = {
+            map: String(data.map),
+            x: Number(data.x || 0),
+            y: Number(data.y || 0),
+            z: Number(data.z || 0),
+        }
+    }
+
+    function IsInLocalChatRange(position: IPosition, targetPosition: IPosition) {
+        if (position.map != targetPosition.map) {
+            return false
+        }
+        // Distance is not set, so everyone in the same map can receive the message
+        if (config.localChatDistance <= 0) {
+            return true
+        }
+        const dx = position.x - targetPosition.x
+        const dy = position.y - targetPosition.y
+        const dz = config.localChatUse2D ? 0 : position.z - targetPosition.z
+        return dx * dx + dy * dy + dz * dz <= config.localChatDistance * config.localChatDistance
+    }
+
+    async function GroupLeave(groupId: string | undefined, userId: string | undefined, kickerId?: string) {
+        // Validate group
+        if (!groupId) {
+            return
+        }
+        // Validate user
+        if (!userId) {
+            return
+        }
+        // User is not a member, there is nothing to leave
+        const role = await GetGroupRole(groupId, userId)
+        if (role === null) {
+            return
+        }
+        // Delete user's group data from database
+        await storage.removeUserGroup(userId, groupId)
+        // Remove user from the group
+        await adapter.publish({
+            type: "group-remove",
+            groupId: groupId,
+            userId: userId,
+        })
+        await NotifyGroup(userId)
+        // Broadcast leave member
+        await EmitToGroup(groupId, "group-leave", {
+            groupId: groupId,
+        })
+        await webhook.enqueue("group-leave", {
+            "groupId": groupId,
+            "userId": userId,
+            "kicked": kickerId !== undefined,
+            "kickerId": kickerId,
+        })
+        const members = await storage.getGroupMembers([groupId])
+        if (members.length == 0) {
+            await HandleEmptyGroup(groupId)
+            return
+        }
+        if (role === GroupRole.Owner) {
+            await HandOverOwnership(groupId, members)
+        }
+    }
+
+    // The oldest moderator becomes the owner, or the oldest member if there are no moderators
+    async function HandOverOwnership(groupId: string, members: Array<IUserGroupRecord>) {
+        if (members.some(member => member.role == GroupRole.Owner)) {
+            return
+        }
+        const moderator = members.find(member => member.role == GroupRole.Moderator)
+        const newOwner = moderator ? moderator : members[0]
+        await SetGroupRole(groupId, newOwner.userId, GroupRole.Owner)
+    }
+
+    async function HandleEmptyGroup(groupId: string) {
+        switch (config.emptyGroupAction) {
+            case "delete":
+                await DeleteGroup(groupId)
+                break
+            case "archive":
+                // Nobody can accept invitations of an archived group, admin routes can add members to restore it
+                await RemoveGroupInvitations(groupId)
+                await storage.updateGroup(groupId, {
+                    archivedAt: new Date(),
+                })
+                await webhook.enqueue("group-archive", {
+                    "groupId": groupId,
+                })
+                break
+        }
+    }
+
+    async function RemoveGroupInvitations(groupId: string) {
+        const invitations = await storage.getGroupInvitations(groupId, new Date())
+        for (const invitation of invitations) {
+            await storage.removeInvitation(invitation.userId, groupId)
+            await NotifyGroupInvitation(invitation.userId)
+        }
+    }
+
+    async function IsGroupFull(groupId: string) {
+        if (config.maxGroupMembers <= 0) {
+            return false
+        }
+        const members = await storage.getGroupMembers([groupId])
+        return members.length >= config.maxGroupMembers
+    }
+
+    async function GetGroupInvitationData(list: Array<IUserGroupInvitationRecord>) {
+        const groupIds: Array<string> = []
+        const inviterIds: Array<string> = []
+        for (const invitation of list) {
+            groupIds.push(invitation.groupId)
+            if (invitation.inviterId) {
+                inviterIds.push(invitation.inviterId)
+            }
+        }
+        const groups: { [groupId: string]: IGroupRecord } = {}
+        for (const group of await storage.getGroups(groupIds)) {
+            groups[group.groupId] = group
+        }
+        const inviterNames: { [userId: string]: string } = {}
+        for (const inviter of await storage.getUsers(inviterIds)) {
+            inviterNames[inviter.userId] = inviter.name
+        }
+        const result: Array<IGroupInvitationData> = []
+        for (const invitation of list) {
+            const group = groups[invitation.groupId]
+            if (!group) {
+                continue
+            }
+            result.push({
+                groupId: group.groupId,
+                title: group.title,
+                iconUrl: group.iconUrl,
+                profanityFilter: group.profanityFilter,
+                inviterId: invitation.inviterId,
+                inviterName: invitation.inviterId && inviterNames[invitation.inviterId] ? inviterNames[invitation.inviterId] : "",
+                createdAt: invitation.createdAt,
+                expiresAt: invitation.expiresAt,
+            })
+        }
+        return result
+    }
+
+    async function NotifyGroupInvitation(userId: string) {
+        const list = await storage.getInvitations(userId, new Date())
+        await EmitToUser(userId, "group-invitation-list", {
+            list: await GetGroupInvitationData(list)
+        })
+    }
+
+    async function NotifyGroupInvite(userId: string, groupId: string) {
+        const list = await storage.getGroupInvitations(groupId, new Date())
+        const users = await storage.getUsers(list.map(invitation => invitation.userId))
+        const names: { [userId: string]: string } = {}
+        for (const user of users) {
+            names[user.userId] = user.name
+        }
+        await EmitToUser(userId, "group-invite-list", {
+            groupId: groupId,
+            list: list.map(invitation => ({
+                userId: invitation.userId,
+                name: names[invitation.userId] || "",
+                inviterId: invitation.inviterId,
+                createdAt: invitation.createdAt,
+                expiresAt: invitation.expiresAt,
+            })),
+        })
+    }
+
+    async function NotifyGroupUser(userId: string, groupId: string) {
+        const list = await storage.getGroupMembers([groupId])
+        // Only members can see other members
+        if (!list.some(element => element.userId == userId)) {
+            return
+        }
+        const userIds: Array<string> = []
+        const roles: { [userId: string]: GroupRole } = {}
+        list.forEach(element => {
+            userIds.push(element.userId)
+            roles[element.userId] = element.role
+        })
+        const users = await storage.getUsers(userIds)
+        const userList: Array<IGroupUserData> = []
+        for (const user of users) {
+            const presence = await adapter.getPresence(user.userId)
+            userList.push({
+                "userId": user.userId,
+                "name": user.name,
+                "iconUrl": user.iconUrl,
+                "role": roles[user.userId],
+                "status": presence ? presence.status : "offline",
+                "lastSeenAt": presence ? null : user.lastSeenAt,
+            })
+        }
+
+        await EmitToUser(userId, "group-user-list", {
+            groupId: groupId,
+            list: userList
+        })
+    }
+
+    async function NotifyPresence(userId: string, status: PresenceStatus, lastSeenAt: Date | null) {
+        const userGroups = await storage.getUserGroups(userId)
+        const groupIds: Array<string> = []
+        for (const userGroup of userGroups) {
+            groupIds.push(userGroup.groupId)
+        }
+        const members = await storage.getGroupMembers(groupIds)
+        // Members may be in many groups with the user, tell them once
+        const notifiedUserIds: { [userId: string]: boolean } = {}
+        for (const member of members) {
+            if (member.userId == userId || notifiedUserIds[member.userId]) {
+                continue
+            }
+            notifiedUserIds[member.userId] = true
+            await EmitToUser(member.userId, "presence", {
+                "userId": userId,
+                "status": status,
+                "lastSeenAt": lastSeenAt,
+            })
+        }
+    }
+
+    // Remove the user's state before disconnecting, the disconnection handler won't find the socket in `connections`
+    function DisconnectLocalSocket(socket: ChatSocket, reason: string) {
+        SocketLogger(socket).info(reason)
+        RemoveLocalConnection(socket, socket.data.userId!)
+        socket.disconnect(true)
+    }
+
+    function RemoveLocalConnection(socket: ChatSocket, userId: string) {
+        // Newer socket may replaced the connection already
+        if (connections[userId] === socket) {
+            delete connections[userId]
+            delete positions[userId]
+            delete mutes[userId]
+            delete blockedUserIds[userId]
+        }
+        for (const groupId in connectionsByGroupId) {
+            if (connectionsByGroupId[groupId][userId] !== socket) {
+                continue
+            }
+            delete connectionsByGroupId[groupId][userId]
+            if (Object.keys(connectionsByGroupId[groupId]).length == 0) {
+                delete connectionsByGroupId[groupId]
+            }
+        }
+        for (const channelId in connectionsByChannelId) {
+            if (connectionsByChannelId[channelId][userId] === socket) {
+                delete connectionsByChannelId[channelId][userId]
+            }
+        }
+        if (!Object.prototype.hasOwnProperty.call(connections, userId)) {
+            delete channelPostedAt[userId]
+        }
+    }
+
+    async function NotifyGroup(userId: string) {
+        const list = await storage.getUserGroups(userId)
+        const groupIds: Array<string> = []
+        list.forEach(element => {
+            groupIds.push(element.groupId)
+        })
+        const groupList = await storage.getGroups(groupIds)
+        await EmitToUser(userId, "group-list", {
+            list: groupList
+        })
+    }
+
+    async function AddUserToGroup(userId: string, groupId: string, role: GroupRole = GroupRole.Member): Promise<ErrorCode | void> {
+        // Members whose role is changed are not counted
+        if (await GetGroupRole(groupId, userId) === null && await IsGroupFull(groupId)) {
+            return ErrorCode.GroupFull
+        }
+        await storage.setUserGroup(userId, groupId, role)
+        // Joining consumes the invitation
+        await storage.removeInvitation(userId, groupId)
+        // Add user to group, at the instance which the user is connected to
+        await adapter.publish({
+            type: "group-add",
+            groupId: groupId,
+            userId: userId,
+        })
+        // Broadcast new member
+        const user = await storage.getUser(userId)
+        await EmitToGroup(groupId, "group-join", {
+            "groupId": groupId,
+            "userId": userId,
+            "name": user ? user.name : "",
+        })
+        await webhook.enqueue("group-join", {
+            "groupId": groupId,
+            "userId": userId,
+            "role": role,
+        })
+        await NotifyGroupInvitation(userId)
+        await NotifyGroup(userId)
+    }
+
+    async function IsBlockedBy(userId: string, targetUserId: string) {
+        return await storage.isBlocked(targetUserId, userId)
+    }
+
+    async function DeleteGroup(groupId: string) {
+        const userGroups = await storage.getGroupMembers([groupId])
+        // Tell the members before remove them from the group
+        await EmitToGroup(groupId, "delete-group", {
+            "groupId": groupId,
+        })
+        await RemoveGroupInvitations(groupId)
+        await storage.deleteGroup(groupId)
+        for (const userGroup of userGroups) {
+            await adapter.publish({
+                type: "group-remove",
+                groupId: userGroup.groupId,
+                userId: userGroup.userId,
+            })
+            await NotifyGroup(userGroup.userId)
+        }
+        await webhook.enqueue("group-delete", {
+            "groupId": groupId,
+        })
+    }
+
+    // Whisper to offline user is not delivered, it is stored to deliver it when the user connects
+    async function SendWhisper(socket: ChatSocket, targetUserId: string, targetName: string, rawMsg: string, replyToId: number | undefined, delivered: boolean): Promise<ErrorCode | void> {
+        const userId = socket.data.userId!
+        const replyError = await CheckReply(replyToId, "whisper", undefined, userId, targetUserId)
+        if (replyError) {
+            return replyError
+        }
+        const msg = FilterProfanity(socket, rawMsg, config.profanityFilterMode)
+        if (msg === null) {
+            return ErrorCode.Profanity
+        }
+        const message = await SaveMessage("whisper", undefined, userId, targetUserId, msg, rawMsg, delivered, replyToId)
+        const mentions = delivered ? await FindMentions(message) : []
+        const whisper = {
+            "messageId": message.messageId,
+            "userId": userId,
+            "userId2": targetUserId,
+            "name": socket.data.name!,
+            "name2": targetName,
+            "msg": msg,
+            "replyToId": message.replyToId,
+            "mentions": mentions,
+            "createdAt": message.createdAt,
+        }
+        socket.emit("whisper", whisper)
+        if (!delivered) {
+            return
+        }
+        await EmitToUser(targetUserId, "whisper", whisper)
+        await NotifyMentions(message, socket.data.name!, mentions)
+        await SetTyping(userId, socket.data.name!, undefined, targetUserId, false)
+    }
+
+    async function AuthenticateSocket(socket: ChatSocket): Promise<ErrorCode | void> {
+        // Stopping server doesn't accept new sockets, clients will reconnect after `server-restarting`'s retry delay
+        if (!ready) {
+            return ErrorCode.ServerRestarting
+        }
+        const auth = socket.handshake.auth || {}
+        // Resume token is used instead of the token from `/add-user` when the client reconnects
+        const resuming = auth.resumeToken !== undefined
+        const token = resuming ? auth.resumeToken : auth.token
+        if (typeof token !== "string") {
+            return ErrorCode.InvalidToken
+        }
+        const result = tokenIssuer.verify(token)
+        if (result.error == "expired") {
+            return ErrorCode.TokenExpired
+        }
+        if (!result.payload) {
+            return ErrorCode.InvalidToken
+        }
+        const payload = result.payload
+        if ((payload.typ == "resume") != resuming) {
+            return ErrorCode.InvalidToken
+        }
+        // Token was revoked by `/revoke-token`, resume tokens are revoked with the token which their session was started by
+        if (await storage.isTokenRevoked(payload.jti) || (payload.sid && await storage.isTokenRevoked(payload.sid))) {
+            return ErrorCode.TokenRevoked
+        }
+        // Every tokens which were issued before `/remove-user` were revoked
+        const user = await storage.getUser(payload.sub)
+        if (!user) {
+            return ErrorCode.InvalidUser
+        }
+        if (user.tokensRevokedAt && payload.iat < Math.floor(user.tokensRevokedAt.getTime() / 1000)) {
+            return ErrorCode.TokenRevoked
+        }
+        // Banned user can't connect
+        const ban = await GetActiveModeration(payload.sub, "ban")
+        if (ban) {
+            return ErrorCode.Banned
+        }
+        let lastMessageId: number | undefined = undefined
+        if (resuming) {
+            // Too long after disconnected, the client has to get a new token from `/add-user`,
+            // user who is still online was disconnected before this instance noticed, such as when the server restarted
+            if (config.resumeWindow <= 0) {
+                return ErrorCode.SessionExpired
+            }
+            const presence = await adapter.getPresence(payload.sub)
+            if (!presence && (!user.lastSeenAt || Date.now() - user.lastSeenAt.getTime() > config.resumeWindow * 1000)) {
+                return ErrorCode.SessionExpired
+            }
+            // Resume tokens can be used once, the client gets a new one after connected
+            await storage.revokeToken({
+                tokenId: payload.jti,
+                userId: payload.sub,
+                expiresAt: new Date(payload.exp * 1000),
+            })
+            if (Number.isInteger(auth.lastMessageId) && auth.lastMessageId >= 0) {
+                lastMessageId = auth.lastMessageId
+            }
+        }
+        socket.data = {
+            userId: payload.sub,
+            name: payload.name,
+            locale: payload.locale,
+            tokenId: payload.sid || payload.jti,
+            correlationId: socket.data.correlationId!,
+            resumed: resuming,
+            lastMessageId: lastMessageId,
+        }
+    }
+
+    async function OnConnected(socket: ChatSocket) {
+        const userId = socket.data.userId!
+        SocketLogger(socket).info("Socket connected")
+
+        // Set socket client to the collections, then disconnect older socket of this instance, cluster messages are delivered later
+        // User's state, such as mutes and slow mode, is kept for the newer socket
+        const oldSocket = Object.prototype.hasOwnProperty.call(connections, userId) ? connections[userId] : null
+        connections[userId] = socket
+        if (oldSocket && oldSocket !== socket) {
+            SocketLogger(oldSocket).info("Disconnect the socket because newer client is connecting with the same user ID")
+            oldSocket.disconnect(true)
+        }
+        // Disconnect older socket which is connected to other instances
+        await adapter.publish({
+            type: "disconnect-user",
+            userId: userId,
+            socketId: socket.id,
+            nodeId: adapter.nodeId,
+        })
+        await LoadUserModeration(userId)
+        await adapter.setPresence({
+            userId: userId,
+            name: socket.data.name!,
+            nodeId: adapter.nodeId,
+            socketId: socket.id,
+            status: "online",
+        })
+
+        // Find and store user groups
+        const userGroups = await storage.getUserGroups(userId)
+        userGroups.forEach(userGroup => {
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId, userGroup.groupId)) {
+                connectionsByGroupId[userGroup.groupId] = {}
+            }
+            connectionsByGroupId[userGroup.groupId][userId] = socket
+        })
+        // Find and store joined channels
+        const channelMembers = await storage.getUserChannels(userId)
+        for (const channelMember of channelMembers) {
+            if (!Object.prototype.hasOwnProperty.call(connectionsByChannelId, channelMember.channelId)) {
+                connectionsByChannelId[channelMember.channelId] = {}
+            }
+            connectionsByChannelId[channelMember.channelId][userId] = socket
+        }
+        await NotifyGroup(userId)
+        await NotifyPresence(userId, "online", null)
+        // Missed messages were delivered already, so they must be sent before whispers which are delivered for the first time
+        if (socket.data.resumed && socket.data.lastMessageId !== undefined) {
+            await SendMissedMessages(socket, socket.data.lastMessageId)
+        }
+        // Send whispers which were sent while the user was offline
+        await DeliverOfflineWhispers(userId)
+        await NotifyUnread(userId)
+        NotifySession(socket)
+    }
+
+    const setSocketEvents = async (socket: ChatSocket) => {
+        const handleDisconnect = async (reason: string) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return
+            }
+            SocketLogger(socket).info("Socket disconnected", { reason: reason })
+            RemoveLocalConnection(socket, userId)
+            await StopAllTyping(userId, socket.data.name!)
+            // Other instances have to know that the user is offline
+            const removed = await adapter.removePresence(userId, socket.id)
+            if (!removed) {
+                return
+            }
+            // Resume window starts from here
+            const lastSeenAt = new Date()
+            await storage.updateUser(userId, {
+                lastSeenAt: lastSeenAt,
+            })
+            await NotifyPresence(userId, "offline", lastSeenAt)
+        }
+        socket.on("disconnect", (reason) => {
+            TrackTask(handleDisconnect(reason).catch((error) => {
+                SocketLogger(socket).error("Unable to handle the disconnection", { error: error })
+            }))
+        })
+
+        SetEvent(socket, "local", async (data) => {
+            return await SendChannelMessage(socket, "local", data.msg, data.replyToId, data)
+        })
+
+        SetEvent(socket, "position-update", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            UpdatePosition(userId, data)
+        })
+
+        SetEvent(socket, "global", async (data) => {
+            return await SendChannelMessage(socket, "global", data.msg, data.replyToId, data)
+        })
+
+        SetEvent(socket, "channel", async (data) => {
+            return await SendChannelMessage(socket, data.channelId, data.msg, data.replyToId, data)
+        })
+
+        SetEvent(socket, "channel-list", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            await NotifyChannelList(socket)
+        })
+
+        SetEvent(socket, "join-channel", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const channelId = data.channelId
+            // Has the channel?
+            if (!Object.prototype.hasOwnProperty.call(channels, channelId)) {
+                return ErrorCode.ChannelNotFound
+            }
+            // Other channels are delivered to everyone or nearby users, they can't be joined
+            const channel = channels[channelId]
+            if (channel.scope != "members") {
+                return ErrorCode.InvalidData
+            }
+            // Already joined
+            if (IsChannelMember(channelId, userId)) {
+                return
+            }
+            if (channel.maxMembers > 0) {
+                const countMember = await storage.countChannelMembers(channelId)
+                if (countMember >= channel.maxMembers) {
+                    return ErrorCode.ChannelFull
+                }
+            }
+            await storage.addChannelMember(channelId, userId)
+            // Add user to the channel, at the instance which the user is connected to
+            await adapter.publish({
+                type: "channel-add",
+                channelId: channelId,
+                userId: userId,
+            })
+            socket.emit("join-channel", {
+                "channelId": channelId,
+            })
+        })
+
+        SetEvent(socket, "leave-channel", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const channelId = data.channelId
+            if (!IsChannelMember(channelId, userId)) {
+                return ErrorCode.NotChannelMember
+            }
+            await storage.removeChannelMember(channelId, userId)
+            await adapter.publish({
+                type: "channel-remove",
+                channelId: channelId,
+                userId: userId,
+            })
+            socket.emit("leave-channel", {
+                "channelId": channelId,
+            })
+        })
+
+        SetEvent(socket, "channel-history", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const channelId = data.channelId
+            // Has the channel?
+            if (!Object.prototype.hasOwnProperty.call(channels, channelId)) {
+                return ErrorCode.ChannelNotFound
+            }
+            const channel = channels[channelId]
+            if (!channel.retainHistory) {
+                return ErrorCode.NoPermission
+            }
+            if (channel.scope == "members" && !IsChannelMember(channelId, userId)) {
+                return ErrorCode.NotChannelMember
+            }
+            const history = await GetMessageHistory({
+                channel: channelId,
+            }, data.cursor, data.limit)
+            socket.emit("channel-history", {
+                "channelId": channelId,
+                "list": history.list,
+                "nextCursor": history.nextCursor,
+            })
+        })
+
+        SetEvent(socket, "whisper", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const rateLimitError = CheckRateLimit(socket, "whisper", data.msg)
+            if (rateLimitError) {
+                return rateLimitError
+            }
+            const presence = await adapter.getPresenceByName(data.targetName)
+            if (!presence) {
+                return ErrorCode.UserOffline
+            }
+            if (await IsBlockedBy(userId, presence.userId)) {
+                return ErrorCode.Blocked
+            }
+            return await SendWhisper(socket, presence.userId, presence.name, data.msg, data.replyToId, true)
+        })
+
+        SetEvent(socket, "whisper-by-id", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const rateLimitError = CheckRateLimit(socket, "whisper", data.msg)
+            if (rateLimitError) {
+                return rateLimitError
+            }
+            const targetUserId = data.targetUserId
+            if (await IsBlockedBy(userId, targetUserId)) {
+                return ErrorCode.Blocked
+            }
+            const presence = await adapter.getPresence(targetUserId)
+            if (!presence) {
+                // Target user is offline, store the message to deliver it later
+                const targetUser = await storage.getUser(targetUserId)
+                if (!targetUser) {
+                    return ErrorCode.UserNotFound
+                }
+                return await SendWhisper(socket, targetUserId, targetUser.name, data.msg, data.replyToId, false)
+            }
+            return await SendWhisper(socket, presence.userId, presence.name, data.msg, data.replyToId, true)
+        })
+
+        SetEvent(socket, "group", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            // Has the group?
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId, groupId)) {
+                return ErrorCode.GroupNotFound
+            }
+            // User is in the group?
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId[groupId], userId)) {
+                return ErrorCode.NotGroupMember
+            }
+            if (IsMuted(userId)) {
+                return ErrorCode.Muted
+            }
+            const rateLimitError = CheckRateLimit(socket, "group", data.msg)
+            if (rateLimitError) {
+                return rateLimitError
+            }
+            const replyError = await CheckReply(data.replyToId, "group", groupId, userId, undefined)
+            if (replyError) {
+                return replyError
+            }
+            const msg = FilterProfanity(socket, data.msg, await GetGroupProfanityFilter(groupId))
+            if (msg === null) {
+                return ErrorCode.Profanity
+            }
+            const message = await SaveMessage("group", groupId, userId, undefined, msg, data.msg, true, data.replyToId)
+            const mentions = await FindMentions(message)
+            await EmitToGroup(groupId, "group", {
+                "messageId": message.messageId,
+                "groupId": groupId,
+                "userId": userId,
+                "name": socket.data.name!,
+                "msg": msg,
+                "replyToId": message.replyToId,
+                "mentions": mentions,
+                "createdAt": message.createdAt,
+            }, userId)
+            await NotifyMentions(message, socket.data.name!, mentions)
+            // Message was sent, so the user is not typing anymore
+            await SetTyping(userId, socket.data.name!, groupId, undefined, false)
+        })
+
+        SetEvent(socket, "edit-message", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const rateLimitError = CheckSignalRateLimit(userId, "edit")
+            if (rateLimitError) {
+                return rateLimitError
+            }
+            const message = await storage.getMessage(data.messageId)
+            if (!message || message.deletedAt) {
+                return ErrorCode.MessageNotFound
+            }
+            if (message.userId != userId) {
+                return ErrorCode.NoPermission
+            }
+            // Sender may have left the group or the channel
+            if (!IsChangeableMessage(message) || !await CanSeeMessage(userId, message)) {
+                return ErrorCode.InvalidData
+            }
+            if (IsMuted(userId)) {
+                return ErrorCode.Muted
+            }
+            const mode = message.channel == "group" ? await GetGroupProfanityFilter(message.groupId!) : config.profanityFilterMode
+            const msg = FilterProfanity(socket, data.msg, mode)
+            if (msg === null) {
+                return ErrorCode.Profanity
+            }
+            const edited = await storage.updateMessage(message.messageId, {
+                msg: msg,
+                rawMsg: data.msg != msg ? data.msg : null,
+                editedAt: new Date(),
+            })
+            if (!edited) {
+                return ErrorCode.MessageNotFound
+            }
+            await EmitToMessageRecipients(edited, "message-edit", {
+                "messageId": edited.messageId,
+                "channel": edited.channel,
+                "groupId": edited.groupId,
+                "msg": edited.msg,
+                "editedAt": edited.editedAt!,
+            })
+        })
+
+        SetEvent(socket, "delete-message", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const rateLimitError = CheckSignalRateLimit(userId, "edit")
+            if (rateLimitError) {
+                return rateLimitError
+            }
+            const message = await storage.getMessage(data.messageId)
+            if (!message || message.deletedAt) {
+                return ErrorCode.MessageNotFound
+            }
+            if (message.userId != userId) {
+                return ErrorCode.NoPermission
+            }
+            if (!IsChangeableMessage(message) || !await CanSeeMessage(userId, message)) {
+                return ErrorCode.InvalidData
+            }
+            // Message is kept for reports, its text won't be sent to clients anymore
+            await storage.updateMessage(message.messageId, {
+                deletedAt: new Date(),
+            })
+            await EmitToMessageRecipients(message, "message-delete", {
+                "messageId": message.messageId,
+                "channel": message.channel,
+                "groupId": message.groupId,
+            })
+        })
+
+        SetEvent(socket, "add-reaction", async (data) => {
+            return await SetReaction(socket, data.messageId, data.emoji, true)
+        })
+
+        SetEvent(socket, "remove-reaction", async (data) => {
+            return await SetReaction(socket, data.messageId, data.emoji, false)
+        })
+
+        SetEvent(socket, "group-history", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            // Has the group?
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId, groupId)) {
+                return ErrorCode.GroupNotFound
+            }
+            // User is in the group?
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId[groupId], userId)) {
+                return ErrorCode.NotGroupMember
+            }
+            const history = await GetMessageHistory({
+                channel: "group",
+                groupId: groupId,
+            }, data.cursor, data.limit)
+            socket.emit("group-history", {
+                "groupId": groupId,
+                "list": history.list,
+                "nextCursor": history.nextCursor,
+            })
+        })
+
+        SetEvent(socket, "whisper-history", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const targetUserId = data.targetUserId
+            const history = await GetMessageHistory({
+                channel: "whisper",
+                betweenUserIds: [userId, targetUserId],
+            }, data.cursor, data.limit)
+            socket.emit("whisper-history", {
+                "targetUserId": targetUserId,
+                "list": history.list,
+                "nextCursor": history.nextCursor,
+            })
+        })
+
+        SetEvent(socket, "unread-list", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            await NotifyUnread(userId)
+        })
+
+        SetEvent(socket, "mark-read", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const rateLimitError = CheckSignalRateLimit(userId, "read-receipt")
+            if (rateLimitError) {
+                return rateLimitError
+            }
+            let channel = ""
+            let targetId = ""
+            let query: IMessageQuery
+            if (data.groupId) {
+                const groupId = data.groupId
+                // Has the group?
+                if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId, groupId)) {
+                    return ErrorCode.GroupNotFound
+                }
+                // User is in the group?
+                if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId[groupId], userId)) {
+                    return ErrorCode.NotGroupMember
+                }
+                channel = "group"
+                targetId = groupId
+                query = {
+                    channel: "group",
+                    groupId: groupId,
+                }
+            } else if (data.targetUserId) {
+                channel = "whisper"
+                targetId = data.targetUserId
+                query = {
+                    channel: "whisper",
+                    userId: targetId,
+                    userId2: userId,
+                }
+            } else {
+                return ErrorCode.InvalidData
+            }
+            // Mark read until the latest message if message ID was not set
+            let messageId = Number(data.messageId || 0)
+            if (!(messageId > 0)) {
+                const lastMessages = await storage.getMessages(query, {
+                    descending: true,
+                    take: 1,
+                })
+                if (lastMessages.length == 0) {
+                    return
+                }
+                messageId = lastMessages[0].messageId
+            }
+            const lastRead = await storage.getLastRead(userId, channel, targetId)
+            // Don't move read position backward
+            if (lastRead && lastRead.lastMessageId >= messageId) {
+                return
+            }
+            await storage.setLastRead(userId, channel, targetId, messageId)
+            await NotifyUnread(userId)
+            // Tell other members or the whisper partner that the user has read the messages
+            if (channel == "group") {
+                await EmitToGroup(targetId, "read-receipt", {
+                    "userId": userId,
+                    "groupId": targetId,
+                    "messageId": messageId,
+                }, userId)
+            } else {
+                await EmitToUser(targetId, "read-receipt", {
+                    "userId": userId,
+                    "messageId": messageId,
+                })
+            }
+        })
+
+        SetEvent(socket, "read-receipt-list", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const conversationError = await CheckConversation(userId, data.groupId, data.targetUserId)
+            if (conversationError) {
+                return conversationError
+            }
+            let lastReads: Array<IUserLastReadRecord>
+            if (data.groupId) {
+                lastReads = await storage.getLastReadsByTarget("group", data.groupId)
+            } else {
+                // Whisper partner's read position of the user's messages
+                lastReads = await storage.getLastReadsByTarget("whisper", userId, data.targetUserId)
+            }
+            const list: Array<{ userId: string, messageId: number }> = []
+            for (const lastRead of lastReads) {
+                list.push({
+                    "userId": lastRead.userId,
+                    "messageId": lastRead.lastMessageId,
+                })
+            }
+            socket.emit("read-receipt-list", {
+                "groupId": data.groupId,
+                "targetUserId": data.targetUserId,
+                "list": list,
+            })
+        })
+
+        SetEvent(socket, "report-message", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const rateLimitError = CheckSignalRateLimit(userId, "report")
+            if (rateLimitError) {
+                return rateLimitError
+            }
+            const message = await storage.getMessage(data.messageId)
+            if (!message) {
+                return ErrorCode.MessageNotFound
+            }
+            if (message.userId == userId) {
+                return ErrorCode.InvalidData
+            }
+            // Reporter must be able to see the message
+            if (!await CanSeeMessage(userId, message)) {
+                return ErrorCode.MessageNotFound
+            }
+            if (await storage.hasReport(userId, message.messageId)) {
+                return ErrorCode.AlreadyReported
+            }
+            const context = await GetReportContext(message)
+            const report = await storage.createReport({
+                reporterId: userId,
+                userId: message.userId,
+                messageId: message.messageId,
+                channel: message.channel,
+                groupId: message.groupId,
+                msg: message.rawMsg || message.msg,
+                context: JSON.stringify(context),
+                reason: data.reason,
+            })
+            await webhook.enqueue("message-report", {
+                "reportId": report.reportId,
+                "reporterId": report.reporterId,
+                "userId": report.userId,
+                "messageId": report.messageId,
+                "channel": report.channel,
+                "groupId": report.groupId,
+                "msg": report.msg,
+                "reason": report.reason,
+            })
+        })
+
+        SetEvent(socket, "typing-start", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const rateLimitError = CheckSignalRateLimit(userId, "typing")
+            if (rateLimitError) {
+                return rateLimitError
+            }
+            const conversationError = await CheckConversation(userId, data.groupId, data.targetUserId)
+            if (conversationError) {
+                return conversationError
+            }
+            await SetTyping(userId, socket.data.name!, data.groupId, data.targetUserId, true)
+        })
+
+        SetEvent(socket, "typing-stop", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const rateLimitError = CheckSignalRateLimit(userId, "typing")
+            if (rateLimitError) {
+                return rateLimitError
+            }
+            await SetTyping(userId, socket.data.name!, data.groupId, data.targetUserId, false)
+        })
+
+        SetEvent(socket, "create-group", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = nanoid(8)
+            const title = data.title
+            const iconUrl = data.iconUrl
+            // Insert group data to database
+            await storage.createGroup({
+                groupId: groupId,
+                title: title,
+                iconUrl: iconUrl,
+            })
+            // Add user to the group
+            await storage.setUserGroup(userId, groupId, GroupRole.Owner)
+            connectionsByGroupId[groupId] = {}
+            connectionsByGroupId[groupId][userId] = socket
+            // Tell the client that the group was created
+            socket.emit("create-group", {
+                "groupId": groupId,
+                "title": title,
+                "iconUrl": iconUrl,
+            })
+            await webhook.enqueue("group-create", {
+                "groupId": groupId,
+                "title": title,
+                "iconUrl": iconUrl,
+                "ownerId": userId,
+            })
+        })
+
+        SetEvent(socket, "update-group", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            // Has the group?
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId, groupId)) {
+                return ErrorCode.GroupNotFound
+            }
+            // User is in the group?
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId[groupId], userId)) {
+                return ErrorCode.NotGroupMember
+            }
+            // Only owner and moderators can update the group
+            const role = await GetGroupRole(groupId, userId)
+            if (role === null || role < GroupRole.Moderator) {
+                return ErrorCode.NoPermission
+            }
+            // Only owner can change profanity filter
+            if (data.profanityFilter !== undefined && role < GroupRole.Owner) {
+                return ErrorCode.NoPermission
+            }
+            // Update group data at database
+            const group = await storage.updateGroup(groupId, {
+                title: data.title,
+                iconUrl: data.iconUrl,
+                profanityFilter: data.profanityFilter,
+            })
+            if (!group) {
+                return ErrorCode.GroupNotFound
+            }
+            // Tell the clients that the group was updated
+            await EmitToGroup(groupId, "update-group", {
+                "groupId": groupId,
+                "title": group.title,
+                "iconUrl": group.iconUrl,
+                "profanityFilter": group.profanityFilter,
+            })
+        })
+
+        SetEvent(socket, "group-invitation-list", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            await NotifyGroupInvitation(userId)
+        })
+
+        SetEvent(socket, "group-invite-list", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            // Every members can see who were invited
+            if (await GetGroupRole(groupId, userId) === null) {
+                return ErrorCode.NotGroupMember
+            }
+            await NotifyGroupInvite(userId, groupId)
+        })
+
+        SetEvent(socket, "group-invite-cancel", async (data) => {
+            const cancelerId = socket.data.userId
+            if (!cancelerId) {
+                return ErrorCode.NotValidated
+            }
+            const userId = data.userId
+            const groupId = data.groupId
+            const role = await GetGroupRole(groupId, cancelerId)
+            if (role === null) {
+                return ErrorCode.NotGroupMember
+            }
+            const invitation = await storage.getInvitation(userId, groupId)
+            if (!invitation) {
+                return ErrorCode.InvitationNotFound
+            }
+            // Inviter can cancel own invitations, owner and moderators can cancel any invitations
+            if (invitation.inviterId != cancelerId && role < GroupRole.Moderator) {
+                return ErrorCode.NoPermission
+            }
+            await storage.removeInvitation(userId, groupId)
+            await NotifyGroupInvitation(userId)
+            await NotifyGroupInvite(cancelerId, groupId)
+            await webhook.enqueue("group-invite-cancel", {
+                "groupId": groupId,
+                "userId": userId,
+                "cancelerId": cancelerId,
+            })
+        })
+
+        SetEvent(socket, "group-user-list", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            if (await GetGroupRole(groupId, userId) === null) {
+                return ErrorCode.NotGroupMember
+            }
+            await NotifyGroupUser(userId, groupId)
+        })
+
+        SetEvent(socket, "group-list", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            await NotifyGroup(userId)
+        })
+
+        SetEvent(socket, "group-invite", async (data) => {
+            const inviteId = socket.data.userId
+            if (!inviteId) {
+                return ErrorCode.NotValidated
+            }
+            const userId = data.userId
+            const groupId = data.groupId
+            // Has the group?
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId, groupId)) {
+                return ErrorCode.GroupNotFound
+            }
+            // Inviter is in the group?
+            if (!Object.prototype.hasOwnProperty.call(connectionsByGroupId[groupId], inviteId)) {
+                return ErrorCode.NotGroupMember
+            }
+            // Only owner and moderators can invite
+            const role = await GetGroupRole(groupId, inviteId)
+            if (role === null || role < GroupRole.Moderator) {
+                return ErrorCode.NoPermission
+            }
+            // Invitee must be existed
+            if (!await storage.getUser(userId)) {
+                return ErrorCode.UserNotFound
+            }
+            if (await IsGroupFull(groupId)) {
+                return ErrorCode.GroupFull
+            }
+            if (config.groupUserAddMode == 0) {
+                const now = new Date()
+                // Limit pending invitations, inviting the same user again replaces the invitation
+                if (config.maxPendingInvitations > 0) {
+                    const pending = await storage.getGroupInvitations(groupId, now)
+                    if (pending.filter(invitation => invitation.userId != userId).length >= config.maxPendingInvitations) {
+                        return ErrorCode.TooManyInvitations
+                    }
+                }
+                // Create invitation
+                const invitation = await storage.setInvitation({
+                    userId: userId,
+                    groupId: groupId,
+                    inviterId: inviteId,
+                    expiresAt: config.invitationExpiresIn > 0 ? new Date(now.getTime() + config.invitationExpiresIn * 1000) : null,
+                })
+                // Push the new invitation, then the whole list, so clients can use either of them
+                const invitationData = await GetGroupInvitationData([invitation])
+                if (invitationData.length > 0) {
+                    await EmitToUser(userId, "group-invitation", invitationData[0])
+                }
+                await NotifyGroupInvitation(userId)
+                await webhook.enqueue("group-invite", {
+                    "groupId": groupId,
+                    "userId": userId,
+                    "inviterId": inviteId,
+                    "expiresAt": invitation.expiresAt,
+                })
+            } else {
+                return await AddUserToGroup(userId, groupId)
+            }
+        })
+
+        SetEvent(socket, "group-invite-accept", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            // Validate invitation
+            const invitation = await storage.getInvitation(userId, groupId)
+            if (!invitation) {
+                return ErrorCode.InvitationNotFound
+            }
+            if (invitation.expiresAt && invitation.expiresAt <= new Date()) {
+                await storage.removeInvitation(userId, groupId)
+                await NotifyGroupInvitation(userId)
+                return ErrorCode.InvitationExpired
+            }
+            // Keep the invitation, so it can be accepted when somebody left
+            if (await IsGroupFull(groupId)) {
+                return ErrorCode.GroupFull
+            }
+            await webhook.enqueue("group-invite-accept", {
+                "groupId": groupId,
+                "userId": userId,
+            })
+            // Add user to the group, the invitation will be deleted
+            return await AddUserToGroup(userId, groupId)
+        })
+
+        SetEvent(socket, "group-invite-decline", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            // Validate invitation
+            const invitation = await storage.getInvitation(userId, groupId)
+            if (!invitation) {
+                return ErrorCode.InvitationNotFound
+            }
+            // Delete invitation
+            await storage.removeInvitation(userId, groupId)
+            await NotifyGroupInvitation(userId)
+            // Tell the inviter, expired invitations were declined already
+            if (invitation.inviterId && (!invitation.expiresAt || invitation.expiresAt > new Date())) {
+                const user = await storage.getUser(userId)
+                await EmitToUser(invitation.inviterId, "group-invite-decline", {
+                    "groupId": groupId,
+                    "userId": userId,
+                    "name": user ? user.name : "",
+                })
+            }
+            await webhook.enqueue("group-invite-decline", {
+                "groupId": groupId,
+                "userId": userId,
+                "inviterId": invitation.inviterId,
+            })
+        })
+
+        SetEvent(socket, "leave-group", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            const role = await GetGroupRole(groupId, userId)
+            if (role === null) {
+                return ErrorCode.NotGroupMember
+            }
+            await GroupLeave(groupId, userId)
+        })
+
+        SetEvent(socket, "delete-group", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            // Only owner can delete the group
+            const role = await GetGroupRole(groupId, userId)
+            if (role === null) {
+                return ErrorCode.NotGroupMember
+            }
+            if (role !== GroupRole.Owner) {
+                return ErrorCode.NoPermission
+            }
+            await DeleteGroup(groupId)
+        })
+
+        SetEvent(socket, "kick-user", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            const targetUserId = data.userId
+            if (targetUserId == userId) {
+                return ErrorCode.InvalidData
+            }
+            // Can kick only members which have lower role
+            const role = await GetGroupRole(groupId, userId)
+            if (role === null || role < GroupRole.Moderator) {
+                return ErrorCode.NoPermission
+            }
+            const targetRole = await GetGroupRole(groupId, targetUserId)
+            if (targetRole === null) {
+                return ErrorCode.NotGroupMember
+            }
+            if (targetRole >= role) {
+                return ErrorCode.NoPermission
+            }
+            await GroupLeave(groupId, targetUserId, userId)
+        })
+
+        SetEvent(socket, "promote", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            const targetUserId = data.userId
+            // Only owner can promote members to be moderators
+            const role = await GetGroupRole(groupId, userId)
+            if (role !== GroupRole.Owner) {
+                return ErrorCode.NoPermission
+            }
+            const targetRole = await GetGroupRole(groupId, targetUserId)
+            if (targetRole === null) {
+                return ErrorCode.NotGroupMember
+            }
+            if (targetRole != GroupRole.Member) {
+                return ErrorCode.InvalidRole
+            }
+            await SetGroupRole(groupId, targetUserId, GroupRole.Moderator)
+        })
+
+        SetEvent(socket, "demote", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            const targetUserId = data.userId
+            // Only owner can demote moderators to be members
+            const role = await GetGroupRole(groupId, userId)
+            if (role !== GroupRole.Owner) {
+                return ErrorCode.NoPermission
+            }
+            const targetRole = await GetGroupRole(groupId, targetUserId)
+            if (targetRole === null) {
+                return ErrorCode.NotGroupMember
+            }
+            if (targetRole != GroupRole.Moderator) {
+                return ErrorCode.InvalidRole
+            }
+            await SetGroupRole(groupId, targetUserId, GroupRole.Member)
+        })
+
+        SetEvent(socket, "transfer-ownership", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const groupId = data.groupId
+            const targetUserId = data.userId
+            if (targetUserId == userId) {
+                return ErrorCode.InvalidData
+            }
+            const role = await GetGroupRole(groupId, userId)
+            if (role !== GroupRole.Owner) {
+                return ErrorCode.NoPermission
+            }
+            const targetRole = await GetGroupRole(groupId, targetUserId)
+            if (targetRole === null) {
+                return ErrorCode.NotGroupMember
+            }
+            // Old owner will become a moderator
+            await SetGroupRole(groupId, targetUserId, GroupRole.Owner)
+            await SetGroupRole(groupId, userId, GroupRole.Moderator)
+        })
+
+        SetEvent(socket, "block-user", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const targetUserId = data.userId
+            if (targetUserId == userId) {
+                return ErrorCode.InvalidData
+            }
+            if (!await storage.getUser(targetUserId)) {
+                return ErrorCode.UserNotFound
+            }
+            await storage.addUserBlock(userId, targetUserId)
+            if (!Object.prototype.hasOwnProperty.call(blockedUserIds, userId)) {
+                blockedUserIds[userId] = {}
+            }
+            blockedUserIds[userId][targetUserId] = true
+            await NotifyBlockList(userId)
+        })
+
+        SetEvent(socket, "unblock-user", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const targetUserId = data.userId
+            await storage.removeUserBlock(userId, targetUserId)
+            if (Object.prototype.hasOwnProperty.call(blockedUserIds, userId)) {
+                delete blockedUserIds[userId][targetUserId]
+            }
+            await NotifyBlockList(userId)
+        })
+
+        SetEvent(socket, "block-list", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            await NotifyBlockList(userId)
+        })
+
+        SetEvent(socket, "set-status", async (data) => {
+            const userId = socket.data.userId
+            if (!userId) {
+                return ErrorCode.NotValidated
+            }
+            const presence = await adapter.getPresence(userId)
+            // Presence may be replaced by newer socket
+            if (!presence || presence.socketId != socket.id) {
+                return ErrorCode.NotValidated
+            }
+            if (presence.status == data.status) {
+                return
+            }
+            presence.status = data.status
+            await adapter.setPresence(presence)
+            await NotifyPresence(userId, data.status, null)
+        })
+
+        try {
+            await OnConnected(socket)
+        } catch (error) {
+            SocketLogger(socket).error("Unable to set up the socket", { error: error })
+            socket.disconnect(true)
+        }
+    }
+
+    // Only sockets which have valid token can connect, so event handlers never run for unauthenticated sockets
+    io.use((socket, next) => {
+        socket.data.correlationId = GetCorrelationId(socket.handshake.headers['x-correlation-id'] || (socket.handshake.auth ? socket.handshake.auth.correlationId : undefined))
+        AuthenticateSocket(socket).then((code) => {
+            if (code) {
+                SocketLogger(socket).warn("Socket is not allowed to connect", { code: code })
+                rejectedValidationCounter.inc({ source: "socket", code: code })
+                const error: Error & { data?: { code: string, retryAfter?: number } } = new Error(code)
+                error.data = {
+                    code: code,
+                }
+                next(error)
+                return
+            }
+            next()
+        }).catch((error) => {
+            SocketLogger(socket).error("Unable to authenticate the socket", { error: error })
+            next(new Error(ErrorCode.InternalError))
+        })
+    })
+    io.on("connection", setSocketEvents)
+
+    function validateUser(req: any, res: any, next: any) {
+        // This must be able to connect by game-server only, don't allow client to connect
+        // Validate connection by secret key which will be included in header -> authorization
+        const bearerHeader = req.headers['authorization']
+        if (!bearerHeader) {
+            RejectAdminRequest(req, res, "missing-secret-key")
+            return
+        }
+        // Substring `bearer `, length is 7
+        const bearerToken = bearerHeader.substring(7)
+        if (config.secretKeys.indexOf(bearerToken) < 0) {
+            RejectAdminRequest(req, res, "invalid-secret-key")
+            return
+        }
+        next();
+    }
+
+    function RejectAdminRequest(req: any, res: any, code: string) {
+        logger.warn("Admin request is not allowed", {
+            correlationId: res.locals.correlationId,
+            path: req.path,
+            code: code,
+        })
+        rejectedValidationCounter.inc({ source: "http", code: code })
+        res.sendStatus(400)
+    }
+
+    function ParseRouteData<P extends AdminRoutePath>(path: P, data: any): AdminRouteData<P> | null {
+        const result = adminRouteSchemas[path].safeParse(data || {})
+        if (!result.success) {
+            return null
+        }
+        return result.data as AdminRouteData<P>
+    }
+
+    // Express doesn't handle rejected promises, so errors are caught here and replied as 500
+    function CreateRouteListener<P extends AdminRoutePath>(method: RouteMethod, path: P, handler: RouteHandler<P>) {
+        return (req: express.Request, res: express.Response) => {
+            // Reject malformed body or query before it reaches the handler
+            const data = ParseRouteData(path, method == "get" ? req.query : req.body)
+            if (!data) {
+                RejectAdminRequest(req, res, "invalid-data")
+                return
+            }
+            handler(data, res).catch((error) => {
+                logger.error("Error occurring while handling the request", {
+                    correlationId: res.locals.correlationId,
+                    path: path,
+                    error: error,
+                })
+                routeErrorCounter.inc({ path: path })
+                if (!res.headersSent) {
+                    res.sendStatus(500)
+                }
+            })
+        }
+    }
+
+    // Route which is not protected by secret keys
+    function SetRoute<P extends AdminRoutePath>(method: RouteMethod, path: P, handler: RouteHandler<P>) {
+        app[method](path, CreateRouteListener(method, path, handler))
+    }
+
+    function SetAdminRoute<P extends AdminRoutePath>(method: RouteMethod, path: P, handler: RouteHandler<P>) {
+        app[method](path, validateUser, CreateRouteListener(method, path, handler))
+    }
+
+    async function SendHealth(res: any) {
+        try {
+            await storage.ping()
+        } catch (error) {
+            logger.error("Unable to reach the database", { correlationId: res.locals.correlationId, error: error })
+            res.status(503).send({ status: "database-unavailable" })
+            return
+        }
+        res.status(200).send({ status: "ok" })
+    }
+
+    // Liveness, for health checks which restart unhealthy instances
+    SetRoute("get", "/healthz", async (data, res) => {
+        await SendHealth(res)
+    })
+
+    // Readiness, load balancers should send clients to ready instances only
+    SetRoute("get", "/readyz", async (data, res) => {
+        if (!ready) {
+            res.status(503).send({ status: "not-ready" })
+            return
+        }
+        await SendHealth(res)
+    })
+
+    // Metrics in Prometheus text format, it is not protected by secret keys so it can be scraped, don't expose it publicly
+    SetRoute("get", "/metrics", async (data, res) => {
+        res.setHeader('Content-Type', 'text/plain; version=0.0.4')
+        res.status(200).send(metrics.render())
+    })
+
+    SetAdminRoute("post", "/add-user", async (data, res) => {
+        await storage.saveUser({
+            userId: data.userId,
+            name: data.name,
+            iconUrl: data.iconUrl,
+        })
+        // Secret key is correct, then issue a token, client has to connect with it as `auth.token`
+        const issued = tokenIssuer.issue(data.userId, data.name, data.locale)
+        res.status(200).send({
+            userId: data.userId,
+            name: data.name,
+            token: issued.token,
+            expiresAt: new Date(issued.payload.exp * 1000),
+        })
+    })
+
+    SetAdminRoute("post", "/remove-user", async (data, res) => {
+        // Revoke every tokens which were issued to the user, then kick the user out
+        await storage.updateUser(data.userId, {
+            tokensRevokedAt: new Date(),
+        })
+        await adapter.publish({
+            type: "disconnect-user",
+            userId: data.userId,
+            socketId: "",
+        })
+        res.status(200).send()
+    })
+
+    // Everything which was stored about the user, for data access requests
+    SetAdminRoute("get", "/user-data", async (data, res) => {
+        const user = await storage.getUser(data.userId)
+        if (!user) {
+            res.sendStatus(404)
+            return
+        }
+        const groups = await storage.getUserGroups(data.userId)
+        // Nothing is expired at the epoch, so expired invitations are included
+        const invitations = await storage.getInvitations(data.userId, new Date(0))
+        const messages = await GetAllMessages({
+            userId: data.userId,
+        })
+        res.status(200).send({
+            user: user,
+            groups: groups,
+            invitations: invitations,
+            messages: messages,
+        })
+    })
+
+    // Delete the user's data, and remove the user's ID and text from data which is kept for other users
+    SetAdminRoute("post", "/forget-user", async (data, res) => {
+        // Kick the user out, the user can't connect anymore because the user won't exist
+        await adapter.publish({
+            type: "disconnect-user",
+            userId: data.userId,
+            socketId: "",
+        })
+        // Leave groups as the user did, so ownership is handed over and empty groups are handled
+        const userGroups = await storage.getUserGroups(data.userId)
+        for (const userGroup of userGroups) {
+            await GroupLeave(userGroup.groupId, data.userId)
+        }
+        await storage.forgetUser(data.userId, new Date())
+        await webhook.enqueue("user-forget", {
+            "userId": data.userId,
+        })
+        res.status(200).send()
+    })
+
+    SetAdminRoute("post", "/revoke-token", async (data, res) => {
+        const result = tokenIssuer.verify(data.token)
+        // Expired token can't be used anyway
+        if (result.error == "expired") {
+            res.status(200).send()
+            return
+        }
+        if (!result.payload) {
+            res.sendStatus(400)
+            return
+        }
+        await storage.revokeToken({
+            tokenId: result.payload.jti,
+            userId: result.payload.sub,
+            expiresAt: new Date(result.payload.exp * 1000),
+        })
+        // Kick the user out if the user is connected by the revoked token
+        await adapter.publish({
+            type: "revoke-token",
+            userId: result.payload.sub,
+            tokenId: result.payload.jti,
+        })
+        res.status(200).send()
+    })
+
+    SetAdminRoute("post", "/mute-user", async (data, res) => {
+        const moderation = await AddModeration(data.userId, "mute", data.duration, data.reason)
+        res.status(200).send(moderation)
+    })
+
+    SetAdminRoute("post", "/unmute-user", async (data, res) => {
+        await RevokeModeration(data.userId, "mute")
+        res.status(200).send()
+    })
+
+    SetAdminRoute("post", "/ban-user", async (data, res) => {
+        const moderation = await AddModeration(data.userId, "ban", data.duration, data.reason)
+        res.status(200).send(moderation)
+    })
+
+    SetAdminRoute("post", "/unban-user", async (data, res) => {
+        await RevokeModeration(data.userId, "ban")
+        res.status(200).send()
+    })
+
+    SetAdminRoute("get", "/groups", async (data, res) => {
+        const groups = await storage.getGroups()
+        res.status(200).send(groups)
+    })
+
+    SetAdminRoute("get", "/group", async (data, res) => {
+        const group = await storage.getGroup(data.groupId)
+        if (!group) {
+            res.sendStatus(404)
+            return
+        }
+        const members = await storage.getGroupMembers([data.groupId])
+        res.status(200).send({
+            ...group,
+            members: members,
+        })
+    })
+
+    // Messages of the group which were sent from `from` until before `to`, as JSON or CSV
+    SetAdminRoute("get", "/group-transcript", async (data, res) => {
+        const from = data.from !== undefined ? ParseTime(data.from) : undefined
+        const to = data.to !== undefined ? ParseTime(data.to) : undefined
+        if (from === null || to === null) {
+            res.sendStatus(400)
+            return
+        }
+        const group = await storage.getGroup(data.groupId)
+        if (!group) {
+            res.sendStatus(404)
+            return
+        }
+        const messages = await GetAllMessages({
+            channel: "group",
+            groupId: data.groupId,
+        }, {
+            createdFrom: from,
+            createdBefore: to,
+        })
+        const senders = await storage.getUsers(messages.map(message => message.userId))
+        const senderNames: { [userId: string]: string } = {}
+        for (const sender of senders) {
+            senderNames[sender.userId] = sender.name
+        }
+        // Forgotten users don't have names
+        const list = messages.map(message => ({
+            messageId: message.messageId,
+            userId: message.userId,
+            name: Object.prototype.hasOwnProperty.call(senderNames, message.userId) ? senderNames[message.userId] : null,
+            msg: message.msg,
+            rawMsg: message.rawMsg,
+            replyToId: message.replyToId,
+            editedAt: message.editedAt,
+            deletedAt: message.deletedAt,
+            createdAt: message.createdAt,
+        }))
+        if (data.format == 'csv') {
+            const rows: Array<Array<any>> = [["messageId", "userId", "name", "msg", "rawMsg", "replyToId", "editedAt", "deletedAt", "createdAt"]]
+            for (const message of list) {
+                rows.push([message.messageId, message.userId, message.name, message.msg, message.rawMsg, message.replyToId, message.editedAt, message.deletedAt, message.createdAt])
+            }
+            res.status(200).type('text/csv').send(FormatCsv(rows))
+            return
+        }
+        res.status(200).send({
+            groupId: group.groupId,
+            title: group.title,
+            list: list,
+        })
+    })
+
+    SetAdminRoute("post", "/create-group", async (data, res) => {
+        // Game server can use its own ID, such as guild ID, to make it easier to sync
+        const groupId = data.groupId || nanoid(8)
+        if (await storage.getGroup(groupId)) {
+            res.sendStatus(409)
+            return
+        }
+        const group = await storage.createGroup({
+            groupId: groupId,
+            title: data.title,
+            iconUrl: data.iconUrl,
+            profanityFilter: data.profanityFilter,
+        })
+        await webhook.enqueue("group-create", {
+            "groupId": group.groupId,
+            "title": group.title,
+            "iconUrl": group.iconUrl,
+            "ownerId": data.ownerId,
+        })
+        if (data.ownerId) {
+            await AddUserToGroup(data.ownerId, groupId, GroupRole.Owner)
+        }
+        res.status(200).send(group)
+    })
+
+    SetAdminRoute("post", "/update-group", async (data, res) => {
+        const group = await storage.updateGroup(data.groupId, {
+            title: data.title,
+            iconUrl: data.iconUrl,
+            profanityFilter: data.profanityFilter,
+        })
+        if (!group) {
+            res.sendStatus(404)
+            return
+        }
+        await EmitToGroup(group.groupId, "update-group", {
+            "groupId": group.groupId,
+            "title": group.title,
+            "iconUrl": group.iconUrl,
+            "profanityFilter": group.profanityFilter,
+        })
+        res.status(200).send(group)
+    })
+
+    SetAdminRoute("post", "/delete-group", async (data, res) => {
+        if (!await storage.getGroup(data.groupId)) {
+            res.sendStatus(404)
+            return
+        }
+        await DeleteGroup(data.groupId)
+        res.status(200).send()
+    })
+
+    SetAdminRoute("post", "/add-group-user", async (data, res) => {
+        const group = await storage.getGroup(data.groupId)
+        const user = await storage.getUser(data.userId)
+        if (!group || !user) {
+            res.sendStatus(404)
+            return
+        }
+        // Invitation is not required, add the user immediately
+        // Group is full
+        if (await AddUserToGroup(data.userId, data.groupId, data.role)) {
+            res.sendStatus(409)
+            return
+        }
+        // Adding a member restores the archived group
+        if (group.archivedAt) {
+            await storage.updateGroup(group.groupId, {
+                archivedAt: null,
+            })
+        }
+        res.status(200).send()
+    })
+
+    SetAdminRoute("post", "/remove-group-user", async (data, res) => {
+        // Group doesn't exist or the user is not a member
+        if (await GetGroupRole(data.groupId, data.userId) === null) {
+            res.sendStatus(404)
+            return
+        }
+        await GroupLeave(data.groupId, data.userId)
+        res.status(200).send()
+    })
+
+    SetAdminRoute("get", "/online-users", async (data, res) => {
+        const presences = await adapter.getPresences()
+        const list: Array<{ userId: string, name: string, status: PresenceStatus }> = []
+        for (const presence of presences) {
+            list.push({
+                userId: presence.userId,
+                name: presence.name,
+                status: presence.status,
+            })
+        }
+        res.status(200).send(list)
+    })
+
+    SetAdminRoute("post", "/disconnect-user", async (data, res) => {
+        await adapter.publish({
+            type: "disconnect-user",
+            userId: data.userId,
+            socketId: "",
+        })
+        res.status(200).send()
+    })
+
+    SetAdminRoute("post", "/system-message", async (data, res) => {
+        // Send to the user, the group or the channel's members if it was set, or send to everyone
+        if (data.userId) {
+            await EmitToUser(data.userId, "system-message", {
+                "msg": data.msg,
+            })
+        } else if (data.groupId) {
+            await EmitToGroup(data.groupId, "system-message", {
+                "groupId": data.groupId,
+                "msg": data.msg,
+            })
+        } else if (data.channelId) {
+            await adapter.publish({
+                type: "emit-channel",
+                channelId: data.channelId,
+                event: "system-message",
+                data: {
+                    "channelId": data.channelId,
+                    "msg": data.msg,
+                },
+            })
+        } else {
+            await EmitToAll("system-message", {
+                "msg": data.msg,
+            })
+        }
+        res.status(200).send()
+    })
+
+    SetAdminRoute("get", "/profanity-words", async (data, res) => {
+        const list = await storage.getProfanityWords(data.locale)
+        res.status(200).send(list)
+    })
+
+    SetAdminRoute("post", "/add-profanity-words", async (data, res) => {
+        const locale = data.locale || config.profanityDefaultLocale.toLowerCase()
+        for (const word of data.words) {
+            await storage.addProfanityWord(locale, word, data.allowed)
+        }
+        // Every instances have to reload the word lists
+        await adapter.publish({
+            type: "profanity-reload",
+        })
+        res.status(200).send()
+    })
+
+    SetAdminRoute("post", "/remove-profanity-words", async (data, res) => {
+        await storage.removeProfanityWords(data.locale || config.profanityDefaultLocale.toLowerCase(), data.words, data.allowed)
+        await adapter.publish({
+            type: "profanity-reload",
+        })
+        res.status(200).send()
+    })
+
+    SetAdminRoute("get", "/reports", async (data, res) => {
+        let take = data.limit || config.historyPageSize
+        if (take > config.historyPageSize) {
+            take = config.historyPageSize
+        }
+        const reports = await storage.getReports({
+            status: data.status,
+            userId: data.userId,
+            beforeReportId: data.cursor,
+            take: take + 1,
+        })
+        let nextCursor: number | null = null
+        if (reports.length > take) {
+            reports.pop()
+            nextCursor = reports[reports.length - 1].reportId
+        }
+        const list: Array<any> = []
+        for (const report of reports) {
+            list.push(FormatReport(report))
+        }
+        res.status(200).send({
+            list: list,
+            nextCursor: nextCursor,
+        })
+    })
+
+    SetAdminRoute("get", "/report", async (data, res) => {
+        const report = await storage.getReport(data.reportId)
+        if (!report) {
+            res.sendStatus(404)
+            return
+        }
+        res.status(200).send(FormatReport(report))
+    })
+
+    SetAdminRoute("post", "/resolve-report", async (data, res) => {
+        const report = await storage.getReport(data.reportId)
+        if (!report) {
+            res.sendStatus(404)
+            return
+        }
+        // Forgotten user's ID was removed from the report, so there is nobody to take the action to
+        if (data.action && report.userId == FORGOTTEN_USER_ID) {
+            res.sendStatus(409)
+            return
+        }
+        let moderation = null
+        if (data.action) {
+            moderation = await AddModeration(report.userId, data.action, data.duration, data.reason || "Report #" + report.reportId)
+        }
+        const updatedReport = await storage.updateReport(report.reportId, {
+            status: data.status,
+            action: data.action,
+            note: data.note,
+            resolvedBy: data.moderatorId,
+            resolvedAt: new Date(),
+        })
+        res.status(200).send({
+            report: FormatReport(updatedReport!),
+            moderation: moderation,
+        })
+    })
+
+    SetAdminRoute("get", "/channels", async (data, res) => {
+        const list: Array<IChannelSettings> = []
+        for (const channelId in channels) {
+            list.push(channels[channelId])
+        }
+        res.status(200).send(list)
+    })
+
+    SetAdminRoute("post", "/create-channel", async (data, res) => {
+        const channel = ParseChannelSettings(data)
+        if (!channel) {
+            res.sendStatus(400)
+            return
+        }
+        if (Object.prototype.hasOwnProperty.call(channels, channel.channelId)) {
+            res.sendStatus(409)
+            return
+        }
+        await storage.saveChannel(channel)
+        // Every instances have to reload the channels
+        await adapter.publish({
+            type: "channel-reload",
+        })
+        res.status(200).send(channel)
+    })
+
+    SetAdminRoute("post", "/update-channel", async (data, res) => {
+        if (!Object.prototype.hasOwnProperty.call(channels, data.channelId)) {
+            res.sendStatus(404)
+            return
+        }
+        // Built-in and config channels will be overridden by the updated one
+        const channel = ParseChannelSettings({
+            ...channels[data.channelId],
+            ...data,
+        })
+        if (!channel) {
+            res.sendStatus(400)
+            return
+        }
+        await storage.saveChannel(channel)
+        await adapter.publish({
+            type: "channel-reload",
+        })
+        res.status(200).send(channel)
+    })
+
+    SetAdminRoute("post", "/delete-channel", async (data, res) => {
+        await storage.deleteChannel(data.channelId)
+        // Built-in and config channels can't be deleted, they will be reverted to their default settings
+        const defaultChannels = MergeChannelSettings([BUILT_IN_CHANNELS, configChannels])
+        if (!Object.prototype.hasOwnProperty.call(defaultChannels, data.channelId)) {
+            await storage.removeChannelMembers(data.channelId)
+        }
+        await adapter.publish({
+            type: "channel-reload",
+        })
+        res.status(200).send()
+    })
+
+    function Listen(server: http.Server | https.Server, port: number) {
+        return new Promise<number>((resolve, reject) => {
+            server.once("error", reject)
+            server.listen(port, () => {
+                server.off("error", reject)
+                const address = server.address()
+                const listeningPort = address && typeof address === "object" ? address.port : port
+                logger.info("Simple Socket.io Chat Server is listening", { port: listeningPort })
+                resolve(listeningPort)
+            })
+        })
+    }
+
+    function Close(server: http.Server | https.Server) {
+        return new Promise<void>((resolve) => {
+            if (!server.listening) {
+                resolve()
+                return
+            }
+            server.close(() => resolve())
+        })
+    }
+
+    async function DeleteExpiredChannelMessages() {
+        const channelIds = Object.keys(channels).filter(channelId => !channels[channelId].retainHistory)
+        if (channelIds.length == 0) {
+            return
+        }
+        const createdBefore = new Date(Date.now() - config.channelMessageRetention * 1000)
+        // Delete in batches, so a large backlog won't lock the table for long
+        while (await storage.deleteMessages(channelIds, createdBefore, 1000) >= 1000) {
+        }
+    }
+
+    async function Start() {
+        await adapter.subscribe(HandleClusterMessage)
+        try {
+            await LoadProfanityWords()
+        } catch (error) {
+            logger.error("Unable to load profanity words", { error: error })
+        }
+        try {
+            await LoadChannels()
+        } catch (error) {
+            logger.error("Unable to load channels", { error: error })
+        }
+        // Revoked tokens are not required after they are expired
+        intervals.push(setInterval(() => {
+            storage.deleteExpiredRevokedTokens(new Date()).catch((error) => {
+                logger.error("Unable to delete expired revoked tokens", { error: error })
+            })
+            storage.deleteExpiredInvitations(new Date()).catch((error) => {
+                logger.error("Unable to delete expired invitations", { error: error })
+            })
+            DeleteExpiredChannelMessages().catch((error) => {
+                logger.error("Unable to delete expired channel messages", { error: error })
+            })
+        }, 60 * 60 * 1000))
+        intervals.push(setInterval(() => {
+            try {
+                rateLimiter.prune()
+                signalRateLimiter.prune()
+            } catch (error) {
+                logger.error("Unable to prune rate limits", { error: error })
+            }
+        }, 60 * 1000))
+        // Retry failed deliveries, and send deliveries which were queued before the server restarted
+        webhook.start(5 * 1000)
+        const port = await Listen(httpServer, config.port)
+        if (httpsServer) {
+            await Listen(httpsServer, config.httpsPort)
+        }
+        ready = true
+        return port
+    }
+
+    // Stop accepting connections, tell clients to reconnect later, then wait for pending database writes before closing
+    async function Stop() {
+        ready = false
+        const deadline = Date.now() + config.shutdownTimeout * 1000
+        for (const interval of intervals) {
+            clearInterval(interval)
+        }
+        intervals.length = 0
+        const closing = [Close(httpServer)]
+        if (httpsServer) {
+            closing.push(Close(httpsServer))
+        }
+        io.local.emit("server-restarting", {
+            "retryAfter": config.restartRetryAfter * 1000,
+        })
+        await FlushPendingTasks(deadline)
+        // Disconnected users' last seen time is written by disconnect handlers, resume window starts from it
+        io.disconnectSockets(true)
+        io.engine.close()
+        await FlushPendingTasks(deadline)
+        for (const userId in typingStates) {
+            for (const key in typingStates[userId]) {
+                clearTimeout(typingStates[userId][key].timer)
+            }
+            delete typingStates[userId]
+        }
+        await webhook.stop()
+        await Promise.all(closing)
+        // Injected dependencies may be used by other servers
+        if (!dependencies.adapter) {
+            await adapter.close()
+        }
+        if (!dependencies.storage) {
+            await storage.close()
+        }
+    }
+
+    return {
+        app: app,
+        io: io,
+        logger: logger,
+        start: Start,
+        stop: Stop,
+    }
+}
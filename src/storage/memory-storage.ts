@@ -0,0 +1,739 @@
+import { IChannelSettings } from '../channels'
+import { AnonymizeReportContext, FORGOTTEN_USER_ID, IChannelMemberRecord, IChatStorage, IGroupRecord, IMessageQuery, IMessageRange, IMessageReactionRecord, IMessageRecord, IModerationRecord, IProfanityWordRecord, IReportQuery, IReportRecord, IRevokedTokenRecord, IUserBlockRecord, IUserGroupInvitationRecord, IUserGroupRecord, IUserLastReadRecord, IUserRecord, IWebhookDeliveryRecord } from './storage'
+
+function Copy<T>(record: T): T {
+    return { ...record }
+}
+
+function CopyAll<T>(records: Array<T>): Array<T> {
+    const list: Array<T> = []
+    for (const record of records) {
+        list.push(Copy(record))
+    }
+    return list
+}
+
+function IsExpired(expiresAt: Date | null, now: Date) {
+    return expiresAt !== null && expiresAt <= now
+}
+
+function MatchMessage(message: IMessageRecord, query: IMessageQuery) {
+    if (query.channel !== undefined && message.channel != query.channel) {
+        return false
+    }
+    if (query.groupId !== undefined && message.groupId != query.groupId) {
+        return false
+    }
+    if (query.userId !== undefined && message.userId != query.userId) {
+        return false
+    }
+    if (query.userId2 !== undefined && message.userId2 != query.userId2) {
+        return false
+    }
+    if (query.betweenUserIds) {
+        const [userId, userId2] = query.betweenUserIds
+        if (!(message.userId == userId && message.userId2 == userId2) && !(message.userId == userId2 && message.userId2 == userId)) {
+            return false
+        }
+    }
+    if (query.excludeUserId !== undefined && message.userId == query.excludeUserId) {
+        return false
+    }
+    if (query.delivered !== undefined && message.delivered != query.delivered) {
+        return false
+    }
+    return true
+}
+
+// Keeps everything in the process's memory, data will be lost when the server stops,
+// it is made for development and tests which don't have a database server
+export class MemoryChatStorage implements IChatStorage {
+    private users: { [userId: string]: IUserRecord } = {}
+    private groups: { [groupId: string]: IGroupRecord } = {}
+    private userGroups: Array<IUserGroupRecord> = []
+    private invitations: Array<IUserGroupInvitationRecord> = []
+    // Ordered by message ID
+    private messages: Array<IMessageRecord> = []
+    private reactions: Array<IMessageReactionRecord> = []
+    private lastReads: Array<IUserLastReadRecord> = []
+    private moderations: Array<IModerationRecord> = []
+    private userBlocks: Array<IUserBlockRecord> = []
+    private profanityWords: Array<IProfanityWordRecord> = []
+    private reports: Array<IReportRecord> = []
+    private channels: { [channelId: string]: IChannelSettings } = {}
+    private channelMembers: Array<IChannelMemberRecord> = []
+    private revokedTokens: { [tokenId: string]: IRevokedTokenRecord } = {}
+    private webhookDeliveries: Array<IWebhookDeliveryRecord> = []
+    private lastMessageId = 0
+    private lastModerationId = 0
+    private lastReportId = 0
+    private lastDeliveryId = 0
+
+    async getUser(userId: string) {
+        if (!Object.prototype.hasOwnProperty.call(this.users, userId)) {
+            return null
+        }
+        return Copy(this.users[userId])
+    }
+
+    async getUsers(userIds: Array<string>) {
+        const list: Array<IUserRecord> = []
+        for (const userId in this.users) {
+            if (userIds.indexOf(userId) >= 0) {
+                list.push(Copy(this.users[userId]))
+            }
+        }
+        return list
+    }
+
+    async saveUser(data: { userId: string, name: string, iconUrl?: string | null }) {
+        if (!Object.prototype.hasOwnProperty.call(this.users, data.userId)) {
+            this.users[data.userId] = {
+                userId: data.userId,
+                name: data.name,
+                iconUrl: null,
+                lastSeenAt: null,
+                tokensRevokedAt: new Date(),
+            }
+        }
+        const user = this.users[data.userId]
+        user.name = data.name
+        if (data.iconUrl !== undefined) {
+            user.iconUrl = data.iconUrl
+        }
+        return Copy(user)
+    }
+
+    async updateUser(userId: string, data: { lastSeenAt?: Date | null, tokensRevokedAt?: Date | null }) {
+        if (!Object.prototype.hasOwnProperty.call(this.users, userId)) {
+            return
+        }
+        const user = this.users[userId]
+        if (data.lastSeenAt !== undefined) {
+            user.lastSeenAt = data.lastSeenAt
+        }
+        if (data.tokensRevokedAt !== undefined) {
+            user.tokensRevokedAt = data.tokensRevokedAt
+        }
+    }
+
+    async getGroup(groupId: string) {
+        if (!Object.prototype.hasOwnProperty.call(this.groups, groupId)) {
+            return null
+        }
+        return Copy(this.groups[groupId])
+    }
+
+    async getGroups(groupIds?: Array<string>) {
+        const list: Array<IGroupRecord> = []
+        for (const groupId in this.groups) {
+            if (!groupIds || groupIds.indexOf(groupId) >= 0) {
+                list.push(Copy(this.groups[groupId]))
+            }
+        }
+        return list
+    }
+
+    async createGroup(data: { groupId: string, title: string, iconUrl?: string | null, profanityFilter?: string }) {
+        if (Object.prototype.hasOwnProperty.call(this.groups, data.groupId)) {
+            throw new Error("Group " + data.groupId + " already exists")
+        }
+        this.groups[data.groupId] = {
+            groupId: data.groupId,
+            title: data.title,
+            iconUrl: data.iconUrl !== undefined ? data.iconUrl : null,
+            profanityFilter: data.profanityFilter !== undefined ? data.profanityFilter : "censor",
+            archivedAt: null,
+        }
+        return Copy(this.groups[data.groupId])
+    }
+
+    async updateGroup(groupId: string, data: { title?: string, iconUrl?: string | null, profanityFilter?: string, archivedAt?: Date | null }) {
+        if (!Object.prototype.hasOwnProperty.call(this.groups, groupId)) {
+            return null
+        }
+        const group = this.groups[groupId]
+        if (data.title !== undefined) {
+            group.title = data.title
+        }
+        if (data.iconUrl !== undefined) {
+            group.iconUrl = data.iconUrl
+        }
+        if (data.profanityFilter !== undefined) {
+            group.profanityFilter = data.profanityFilter
+        }
+        if (data.archivedAt !== undefined) {
+            group.archivedAt = data.archivedAt
+        }
+        return Copy(group)
+    }
+
+    async deleteGroup(groupId: string) {
+        this.userGroups = this.userGroups.filter(userGroup => userGroup.groupId != groupId)
+        this.invitations = this.invitations.filter(invitation => invitation.groupId != groupId)
+        delete this.groups[groupId]
+    }
+
+    async getUserGroup(userId: string, groupId: string) {
+        const userGroup = this.userGroups.find(userGroup => userGroup.userId == userId && userGroup.groupId == groupId)
+        return userGroup ? Copy(userGroup) : null
+    }
+
+    async getUserGroups(userId: string) {
+        return CopyAll(this.userGroups.filter(userGroup => userGroup.userId == userId))
+    }
+
+    async getGroupMembers(groupIds: Array<string>) {
+        return CopyAll(this.userGroups.filter(userGroup => groupIds.indexOf(userGroup.groupId) >= 0)).sort((a, b) => {
+            if (a.joinedAt.getTime() != b.joinedAt.getTime()) {
+                return a.joinedAt.getTime() - b.joinedAt.getTime()
+            }
+            return a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0
+        })
+    }
+
+    async setUserGroup(userId: string, groupId: string, role: number) {
+        const userGroup = this.userGroups.find(userGroup => userGroup.userId == userId && userGroup.groupId == groupId)
+        if (userGroup) {
+            userGroup.role = role
+            return
+        }
+        this.userGroups.push({
+            userId: userId,
+            groupId: groupId,
+            role: role,
+            joinedAt: new Date(),
+        })
+    }
+
+    async removeUserGroup(userId: string, groupId: string) {
+        this.userGroups = this.userGroups.filter(userGroup => userGroup.userId != userId || userGroup.groupId != groupId)
+    }
+
+    async getInvitations(userId: string, now: Date) {
+        return CopyAll(this.invitations.filter(invitation => invitation.userId == userId && !IsExpired(invitation.expiresAt, now)))
+    }
+
+    async getGroupInvitations(groupId: string, now: Date) {
+        return CopyAll(this.invitations.filter(invitation => invitation.groupId == groupId && !IsExpired(invitation.expiresAt, now)))
+    }
+
+    async getInvitation(userId: string, groupId: string) {
+        const invitation = this.invitations.find(invitation => invitation.userId == userId && invitation.groupId == groupId)
+        return invitation ? Copy(invitation) : null
+    }
+
+    async setInvitation(data: { userId: string, groupId: string, inviterId: string, expiresAt: Date | null }) {
+        // Replaced invitation is moved to the end, so lists are still ordered by creation time
+        await this.removeInvitation(data.userId, data.groupId)
+        const invitation: IUserGroupInvitationRecord = {
+            userId: data.userId,
+            groupId: data.groupId,
+            inviterId: data.inviterId,
+            createdAt: new Date(),
+            expiresAt: data.expiresAt,
+        }
+        this.invitations.push(invitation)
+        return Copy(invitation)
+    }
+
+    async removeInvitation(userId: string, groupId: string) {
+        this.invitations = this.invitations.filter(invitation => invitation.userId != userId || invitation.groupId != groupId)
+    }
+
+    async deleteExpiredInvitations(now: Date) {
+        this.invitations = this.invitations.filter(invitation => !IsExpired(invitation.expiresAt, now))
+    }
+
+    async createMessage(data: { channel: string, groupId?: string | null, userId: string, userId2?: string | null, msg: string, rawMsg?: string | null, delivered?: boolean, replyToId?: number | null }) {
+        const message: IMessageRecord = {
+            messageId: ++this.lastMessageId,
+            channel: data.channel,
+            groupId: data.groupId || null,
+            userId: data.userId,
+            userId2: data.userId2 || null,
+            msg: data.msg,
+            rawMsg: data.rawMsg || null,
+            delivered: data.delivered !== undefined ? data.delivered : true,
+            replyToId: data.replyToId || null,
+            editedAt: null,
+            deletedAt: null,
+            createdAt: new Date(),
+        }
+        this.messages.push(message)
+        return Copy(message)
+    }
+
+    async getMessage(messageId: number) {
+        const message = this.messages.find(message => message.messageId == messageId)
+        return message ? Copy(message) : null
+    }
+
+    async updateMessage(messageId: number, data: { msg?: string, rawMsg?: string | null, editedAt?: Date | null, deletedAt?: Date | null }) {
+        const message = this.messages.find(message => message.messageId == messageId)
+        if (!message) {
+            return null
+        }
+        if (data.msg !== undefined) {
+            message.msg = data.msg
+        }
+        if (data.rawMsg !== undefined) {
+            message.rawMsg = data.rawMsg
+        }
+        if (data.editedAt !== undefined) {
+            message.editedAt = data.editedAt
+        }
+        if (data.deletedAt !== undefined) {
+            message.deletedAt = data.deletedAt
+        }
+        return Copy(message)
+    }
+
+    async getMessages(query: IMessageQuery, range: IMessageRange = {}) {
+        let list = this.messages.filter(message => {
+            if (range.beforeMessageId !== undefined && message.messageId >= range.beforeMessageId) {
+                return false
+            }
+            if (range.afterMessageId !== undefined && message.messageId <= range.afterMessageId) {
+                return false
+            }
+            if (range.createdFrom !== undefined && message.createdAt < range.createdFrom) {
+                return false
+            }
+            if (range.createdBefore !== undefined && message.createdAt >= range.createdBefore) {
+                return false
+            }
+            return MatchMessage(message, query)
+        })
+        if (range.descending) {
+            list.reverse()
+        }
+        if (range.take !== undefined) {
+            list = list.slice(0, range.take)
+        }
+        return CopyAll(list)
+    }
+
+    async countMessages(query: IMessageQuery, afterMessageId?: number) {
+        const list = await this.getMessages(query, {
+            afterMessageId: afterMessageId,
+        })
+        return list.length
+    }
+
+    async getWhisperSenderIds(userId: string) {
+        const userIds: Array<string> = []
+        for (const message of this.messages) {
+            // Forgotten users are not senders anymore
+            if (message.channel == "whisper" && message.userId2 == userId && message.userId != FORGOTTEN_USER_ID && userIds.indexOf(message.userId) < 0) {
+                userIds.push(message.userId)
+            }
+        }
+        return userIds
+    }
+
+    async markMessagesDelivered(messageIds: Array<number>) {
+        for (const message of this.messages) {
+            if (messageIds.indexOf(message.messageId) >= 0) {
+                message.delivered = true
+            }
+        }
+    }
+
+    async deleteMessages(channels: Array<string>, createdBefore: Date, take: number) {
+        const messageIds = this.messages.filter(message => channels.indexOf(message.channel) >= 0 && message.createdAt < createdBefore).slice(0, take).map(message => message.messageId)
+        this.messages = this.messages.filter(message => messageIds.indexOf(message.messageId) < 0)
+        this.reactions = this.reactions.filter(reaction => messageIds.indexOf(reaction.messageId) < 0)
+        return messageIds.length
+    }
+
+    async getReactions(messageIds: Array<number>) {
+        return CopyAll(this.reactions.filter(reaction => messageIds.indexOf(reaction.messageId) >= 0))
+    }
+
+    async addReaction(messageId: number, userId: string, emoji: string) {
+        if (this.reactions.some(reaction => reaction.messageId == messageId && reaction.userId == userId && reaction.emoji == emoji)) {
+            return false
+        }
+        this.reactions.push({
+            messageId: messageId,
+            userId: userId,
+            emoji: emoji,
+            createdAt: new Date(),
+        })
+        return true
+    }
+
+    async removeReaction(messageId: number, userId: string, emoji: string) {
+        const count = this.reactions.length
+        this.reactions = this.reactions.filter(reaction => reaction.messageId != messageId || reaction.userId != userId || reaction.emoji != emoji)
+        return this.reactions.length < count
+    }
+
+    async getLastReads(userId: string) {
+        return CopyAll(this.lastReads.filter(lastRead => lastRead.userId == userId))
+    }
+
+    async getLastRead(userId: string, channel: string, targetId: string) {
+        const lastRead = this.lastReads.find(lastRead => lastRead.userId == userId && lastRead.channel == channel && lastRead.targetId == targetId)
+        return lastRead ? Copy(lastRead) : null
+    }
+
+    async getLastReadsByTarget(channel: string, targetId: string, userId?: string) {
+        return CopyAll(this.lastReads.filter(lastRead => lastRead.channel == channel && lastRead.targetId == targetId && (userId === undefined || lastRead.userId == userId)))
+    }
+
+    async setLastRead(userId: string, channel: string, targetId: string, lastMessageId: number) {
+        const lastRead = this.lastReads.find(lastRead => lastRead.userId == userId && lastRead.channel == channel && lastRead.targetId == targetId)
+        if (lastRead) {
+            lastRead.lastMessageId = lastMessageId
+            return
+        }
+        this.lastReads.push({
+            userId: userId,
+            channel: channel,
+            targetId: targetId,
+            lastMessageId: lastMessageId,
+        })
+    }
+
+    async getActiveModeration(userId: string, type: string, now: Date) {
+        for (let i = this.moderations.length - 1; i >= 0; --i) {
+            const moderation = this.moderations[i]
+            if (moderation.userId != userId || moderation.type != type || moderation.revokedAt) {
+                continue
+            }
+            if (IsExpired(moderation.expiresAt, now)) {
+                continue
+            }
+            return Copy(moderation)
+        }
+        return null
+    }
+
+    async createModeration(data: { userId: string, type: string, reason?: string | null, expiresAt: Date | null }) {
+        const moderation: IModerationRecord = {
+            moderationId: ++this.lastModerationId,
+            userId: data.userId,
+            type: data.type,
+            reason: data.reason || null,
+            expiresAt: data.expiresAt,
+            revokedAt: null,
+            createdAt: new Date(),
+        }
+        this.moderations.push(moderation)
+        return Copy(moderation)
+    }
+
+    async revokeModerations(userId: string, type: string, now: Date) {
+        let count = 0
+        for (const moderation of this.moderations) {
+            if (moderation.userId == userId && moderation.type == type && !moderation.revokedAt) {
+                moderation.revokedAt = now
+                count++
+            }
+        }
+        return count
+    }
+
+    async getUserBlocks(userId: string) {
+        return CopyAll(this.userBlocks.filter(userBlock => userBlock.userId == userId))
+    }
+
+    async isBlocked(userId: string, blockUserId: string) {
+        return this.userBlocks.some(userBlock => userBlock.userId == userId && userBlock.blockUserId == blockUserId)
+    }
+
+    async addUserBlock(userId: string, blockUserId: string) {
+        if (await this.isBlocked(userId, blockUserId)) {
+            return
+        }
+        this.userBlocks.push({
+            userId: userId,
+            blockUserId: blockUserId,
+            createdAt: new Date(),
+        })
+    }
+
+    async removeUserBlock(userId: string, blockUserId: string) {
+        this.userBlocks = this.userBlocks.filter(userBlock => userBlock.userId != userId || userBlock.blockUserId != blockUserId)
+    }
+
+    async getProfanityWords(locale?: string) {
+        const list = CopyAll(this.profanityWords.filter(profanityWord => locale === undefined || profanityWord.locale == locale))
+        list.sort((a, b) => {
+            if (a.locale != b.locale) {
+                return a.locale < b.locale ? -1 : 1
+            }
+            if (a.word != b.word) {
+                return a.word < b.word ? -1 : 1
+            }
+            return 0
+        })
+        return list
+    }
+
+    async addProfanityWord(locale: string, word: string, allowed: boolean) {
+        if (this.profanityWords.some(profanityWord => profanityWord.locale == locale && profanityWord.word == word && profanityWord.allowed == allowed)) {
+            return
+        }
+        this.profanityWords.push({
+            locale: locale,
+            word: word,
+            allowed: allowed,
+            createdAt: new Date(),
+        })
+    }
+
+    async removeProfanityWords(locale: string, words: Array<string>, allowed: boolean) {
+        this.profanityWords = this.profanityWords.filter(profanityWord => profanityWord.locale != locale || words.indexOf(profanityWord.word) < 0 || profanityWord.allowed != allowed)
+    }
+
+    async getReport(reportId: number) {
+        const report = this.reports.find(report => report.reportId == reportId)
+        return report ? Copy(report) : null
+    }
+
+    async getReports(query: IReportQuery) {
+        let list = this.reports.filter(report => {
+            if (query.status !== undefined && report.status != query.status) {
+                return false
+            }
+            if (query.userId !== undefined && report.userId != query.userId) {
+                return false
+            }
+            if (query.beforeReportId !== undefined && report.reportId >= query.beforeReportId) {
+                return false
+            }
+            return true
+        })
+        list.reverse()
+        if (query.take !== undefined) {
+            list = list.slice(0, query.take)
+        }
+        return CopyAll(list)
+    }
+
+    async hasReport(reporterId: string, messageId: number) {
+        return this.reports.some(report => report.reporterId == reporterId && report.messageId == messageId)
+    }
+
+    async createReport(data: { reporterId: string, userId: string, messageId: number, channel: string, groupId: string | null, msg: string, context: string, reason?: string | null }) {
+        if (await this.hasReport(data.reporterId, data.messageId)) {
+            throw new Error("Message " + data.messageId + " was already reported by " + data.reporterId)
+        }
+        const report: IReportRecord = {
+            reportId: ++this.lastReportId,
+            reporterId: data.reporterId,
+            userId: data.userId,
+            messageId: data.messageId,
+            channel: data.channel,
+            groupId: data.groupId,
+            msg: data.msg,
+            context: data.context,
+            reason: data.reason || null,
+            status: "open",
+            action: null,
+            note: null,
+            resolvedBy: null,
+            resolvedAt: null,
+            createdAt: new Date(),
+        }
+        this.reports.push(report)
+        return Copy(report)
+    }
+
+    async updateReport(reportId: number, data: { status?: string, action?: string | null, note?: string | null, resolvedBy?: string | null, resolvedAt?: Date | null }) {
+        const report = this.reports.find(report => report.reportId == reportId)
+        if (!report) {
+            return null
+        }
+        if (data.status !== undefined) {
+            report.status = data.status
+        }
+        if (data.action !== undefined) {
+            report.action = data.action
+        }
+        if (data.note !== undefined) {
+            report.note = data.note
+        }
+        if (data.resolvedBy !== undefined) {
+            report.resolvedBy = data.resolvedBy
+        }
+        if (data.resolvedAt !== undefined) {
+            report.resolvedAt = data.resolvedAt
+        }
+        return Copy(report)
+    }
+
+    async getChannels() {
+        const list: Array<IChannelSettings> = []
+        for (const channelId in this.channels) {
+            list.push(Copy(this.channels[channelId]))
+        }
+        return list
+    }
+
+    async saveChannel(channel: IChannelSettings) {
+        this.channels[channel.channelId] = Copy(channel)
+    }
+
+    async deleteChannel(channelId: string) {
+        delete this.channels[channelId]
+    }
+
+    async getUserChannels(userId: string) {
+        return CopyAll(this.channelMembers.filter(channelMember => channelMember.userId == userId))
+    }
+
+    async countChannelMembers(channelId: string) {
+        return this.channelMembers.filter(channelMember => channelMember.channelId == channelId).length
+    }
+
+    async addChannelMember(channelId: string, userId: string) {
+        if (this.channelMembers.some(channelMember => channelMember.channelId == channelId && channelMember.userId == userId)) {
+            return
+        }
+        this.channelMembers.push({
+            channelId: channelId,
+            userId: userId,
+            joinedAt: new Date(),
+        })
+    }
+
+    async removeChannelMember(channelId: string, userId: string) {
+        this.channelMembers = this.channelMembers.filter(channelMember => channelMember.channelId != channelId || channelMember.userId != userId)
+    }
+
+    async removeChannelMembers(channelId: string) {
+        this.channelMembers = this.channelMembers.filter(channelMember => channelMember.channelId != channelId)
+    }
+
+    async isTokenRevoked(tokenId: string) {
+        return Object.prototype.hasOwnProperty.call(this.revokedTokens, tokenId)
+    }
+
+    async revokeToken(data: { tokenId: string, userId: string, expiresAt: Date }) {
+        if (Object.prototype.hasOwnProperty.call(this.revokedTokens, data.tokenId)) {
+            return
+        }
+        this.revokedTokens[data.tokenId] = {
+            tokenId: data.tokenId,
+            userId: data.userId,
+            expiresAt: data.expiresAt,
+            createdAt: new Date(),
+        }
+    }
+
+    async deleteExpiredRevokedTokens(now: Date) {
+        for (const tokenId in this.revokedTokens) {
+            if (this.revokedTokens[tokenId].expiresAt < now) {
+                delete this.revokedTokens[tokenId]
+            }
+        }
+    }
+
+    async createWebhookDelivery(data: { url: string, event: string, payload: string }) {
+        const now = new Date()
+        const delivery: IWebhookDeliveryRecord = {
+            deliveryId: ++this.lastDeliveryId,
+            url: data.url,
+            event: data.event,
+            payload: data.payload,
+            attempts: 0,
+            lastError: null,
+            nextAttemptAt: now,
+            deliveredAt: null,
+            failedAt: null,
+            createdAt: now,
+        }
+        this.webhookDeliveries.push(delivery)
+        return Copy(delivery)
+    }
+
+    async getDueWebhookDeliveries(now: Date, take: number) {
+        return CopyAll(this.webhookDeliveries.filter(delivery => !delivery.deliveredAt && !delivery.failedAt && delivery.nextAttemptAt <= now).slice(0, take))
+    }
+
+    async claimWebhookDelivery(deliveryId: number, nextAttemptAt: Date, claimUntil: Date) {
+        const delivery = this.webhookDeliveries.find(delivery => delivery.deliveryId == deliveryId)
+        if (!delivery || delivery.nextAttemptAt.getTime() != nextAttemptAt.getTime()) {
+            return false
+        }
+        delivery.nextAttemptAt = claimUntil
+        return true
+    }
+
+    async updateWebhookDelivery(deliveryId: number, data: Partial<IWebhookDeliveryRecord>) {
+        const delivery = this.webhookDeliveries.find(delivery => delivery.deliveryId == deliveryId)
+        if (delivery) {
+            Object.assign(delivery, data)
+        }
+    }
+
+    async forgetUser(userId: string, now: Date) {
+        delete this.users[userId]
+        this.userGroups = this.userGroups.filter(userGroup => userGroup.userId != userId)
+        this.invitations = this.invitations.filter(invitation => invitation.userId != userId)
+        for (const invitation of this.invitations) {
+            if (invitation.inviterId == userId) {
+                invitation.inviterId = null
+            }
+        }
+        for (const message of this.messages) {
+            if (message.userId == userId) {
+                message.userId = FORGOTTEN_USER_ID
+                message.msg = ""
+                message.rawMsg = null
+                if (!message.deletedAt) {
+                    message.deletedAt = now
+                }
+            }
+            if (message.userId2 == userId) {
+                message.userId2 = FORGOTTEN_USER_ID
+            }
+        }
+        this.reactions = this.reactions.filter(reaction => reaction.userId != userId)
+        // Read positions of the user, and other users' positions of whispers with the user
+        this.lastReads = this.lastReads.filter(lastRead => lastRead.userId != userId && !(lastRead.channel == "whisper" && lastRead.targetId == userId))
+        // Active moderations are kept without their reasons, so the user can't escape them by being forgotten
+        this.moderations = this.moderations.filter(moderation => moderation.userId != userId || (!moderation.revokedAt && !IsExpired(moderation.expiresAt, now)))
+        for (const moderation of this.moderations) {
+            if (moderation.userId == userId) {
+                moderation.reason = null
+            }
+        }
+        this.userBlocks = this.userBlocks.filter(userBlock => userBlock.userId != userId && userBlock.blockUserId != userId)
+        for (const report of this.reports) {
+            if (report.reporterId == userId) {
+                report.reporterId = FORGOTTEN_USER_ID
+            }
+            if (report.userId == userId) {
+                report.userId = FORGOTTEN_USER_ID
+                report.msg = ""
+            }
+            if (report.resolvedBy == userId) {
+                report.resolvedBy = FORGOTTEN_USER_ID
+            }
+            const context = AnonymizeReportContext(report.context, userId)
+            if (context !== null) {
+                report.context = context
+            }
+        }
+        this.channelMembers = this.channelMembers.filter(channelMember => channelMember.userId != userId)
+        for (const tokenId in this.revokedTokens) {
+            if (this.revokedTokens[tokenId].userId == userId) {
+                delete this.revokedTokens[tokenId]
+            }
+        }
+        // Deliveries which are not sent yet are kept, the receiver may have to know about the user
+        const payloadUserId = JSON.stringify(userId)
+        this.webhookDeliveries = this.webhookDeliveries.filter(delivery => (!delivery.deliveredAt && !delivery.failedAt) || delivery.payload.indexOf(payloadUserId) < 0)
+    }
+
+    async ping() {
+    }
+
+    async close() {
+    }
+}
@@ -0,0 +1,1008 @@
+import { PrismaClient } from '@prisma/client'
+import { IChannelSettings, ParseChannelSettings } from '../channels'
+import { AnonymizeReportContext, FORGOTTEN_USER_ID, IChatStorage, IMessageQuery, IMessageRange, IReportQuery, IWebhookDeliveryRecord } from './storage'
+
+// Prisma ignores `undefined` values, so unset fields and bounds are not filtered
+function GetMessageWhere(query: IMessageQuery, range: IMessageRange = {}) {
+    return {
+        channel: query.channel,
+        groupId: query.groupId,
+        userId2: query.userId2,
+        delivered: query.delivered,
+        OR: query.betweenUserIds ? [
+            { userId: query.betweenUserIds[0], userId2: query.betweenUserIds[1] },
+            { userId: query.betweenUserIds[1], userId2: query.betweenUserIds[0] },
+        ] : undefined,
+        AND: [
+            { userId: query.userId },
+            { userId: query.excludeUserId !== undefined ? { not: query.excludeUserId } : undefined },
+            { messageId: { lt: range.beforeMessageId, gt: range.afterMessageId } },
+            { createdAt: { gte: range.createdFrom, lt: range.createdBefore } },
+        ],
+    }
+}
+
+function GetNotExpiredWhere(now: Date) {
+    return [
+        {
+            expiresAt: null
+        },
+        {
+            expiresAt: {
+                gt: now
+            }
+        },
+    ]
+}
+
+// Called after each query with duration in seconds, model is empty for raw queries
+export type PrismaQueryObserver = (model: string, action: string, duration: number) => void
+
+// Storage for MySQL by Prisma, database has to be migrated by `prisma migrate deploy`,
+// queries and returned records are type-checked against the client which `prisma generate` made from schema.prisma
+export class PrismaChatStorage implements IChatStorage {
+    private prisma: PrismaClient
+
+    constructor(prisma: PrismaClient = new PrismaClient(), onQuery?: PrismaQueryObserver) {
+        this.prisma = prisma
+        if (onQuery) {
+            this.prisma.$use(async <P extends { model?: string, action: string }>(params: P, next: (params: P) => Promise<unknown>) => {
+                const startedAt = process.hrtime()
+                try {
+                    return await next(params)
+                } finally {
+                    const elapsed = process.hrtime(startedAt)
+                    onQuery(params.model || "", params.action, elapsed[0] + elapsed[1] / 1e9)
+                }
+            })
+        }
+    }
+
+    async getUser(userId: string) {
+        return await this.prisma.user.findUnique({
+            where: {
+                userId: userId,
+            }
+        })
+    }
+
+    async getUsers(userIds: Array<string>) {
+        return await this.prisma.user.findMany({
+            where: {
+                userId: {
+                    in: userIds
+                }
+            }
+        })
+    }
+
+    async saveUser(data: { userId: string, name: string, iconUrl?: string | null }) {
+        return await this.prisma.user.upsert({
+            where: {
+                userId: data.userId,
+            },
+            update: {
+                name: data.name,
+                iconUrl: data.iconUrl,
+            },
+            create: {
+                userId: data.userId,
+                name: data.name,
+                iconUrl: data.iconUrl,
+                tokensRevokedAt: new Date(),
+            },
+        })
+    }
+
+    async updateUser(userId: string, data: { lastSeenAt?: Date | null, tokensRevokedAt?: Date | null }) {
+        await this.prisma.user.updateMany({
+            where: {
+                userId: userId,
+            },
+            data: data,
+        })
+    }
+
+    async getGroup(groupId: string) {
+        return await this.prisma.group.findUnique({
+            where: {
+                groupId: groupId,
+            }
+        })
+    }
+
+    async getGroups(groupIds?: Array<string>) {
+        if (!groupIds) {
+            return await this.prisma.group.findMany()
+        }
+        return await this.prisma.group.findMany({
+            where: {
+                groupId: {
+                    in: groupIds
+                }
+            }
+        })
+    }
+
+    async createGroup(data: { groupId: string, title: string, iconUrl?: string | null, profanityFilter?: string }) {
+        return await this.prisma.group.create({
+            data: data,
+        })
+    }
+
+    async updateGroup(groupId: string, data: { title?: string, iconUrl?: string | null, profanityFilter?: string, archivedAt?: Date | null }) {
+        const result = await this.prisma.group.updateMany({
+            where: {
+                groupId: groupId,
+            },
+            data: data,
+        })
+        if (result.count == 0) {
+            return null
+        }
+        return await this.getGroup(groupId)
+    }
+
+    async deleteGroup(groupId: string) {
+        await this.prisma.userGroup.deleteMany({
+            where: {
+                groupId: groupId,
+            }
+        })
+        await this.prisma.userGroupInvitation.deleteMany({
+            where: {
+                groupId: groupId,
+            }
+        })
+        await this.prisma.group.deleteMany({
+            where: {
+                groupId: groupId,
+            }
+        })
+    }
+
+    async getUserGroup(userId: string, groupId: string) {
+        return await this.prisma.userGroup.findUnique({
+            where: {
+                userId_groupId: {
+                    userId: userId,
+                    groupId: groupId,
+                }
+            }
+        })
+    }
+
+    async getUserGroups(userId: string) {
+        return await this.prisma.userGroup.findMany({
+            where: {
+                userId: userId,
+            }
+        })
+    }
+
+    async getGroupMembers(groupIds: Array<string>) {
+        return await this.prisma.userGroup.findMany({
+            where: {
+                groupId: {
+                    in: groupIds
+                }
+            },
+            // Members who were migrated without messages have the same join time, user id keeps their order stable
+            orderBy: [
+                { joinedAt: 'asc' },
+                { userId: 'asc' },
+            ],
+        })
+    }
+
+    async setUserGroup(userId: string, groupId: string, role: number) {
+        await this.prisma.userGroup.upsert({
+            where: {
+                userId_groupId: {
+                    userId: userId,
+                    groupId: groupId,
+                }
+            },
+            update: {
+                role: role,
+            },
+            create: {
+                userId: userId,
+                groupId: groupId,
+                role: role,
+            },
+        })
+    }
+
+    async removeUserGroup(userId: string, groupId: string) {
+        await this.prisma.userGroup.deleteMany({
+            where: {
+                userId: userId,
+                groupId: groupId,
+            }
+        })
+    }
+
+    async getInvitations(userId: string, now: Date) {
+        return await this.prisma.userGroupInvitation.findMany({
+            where: {
+                userId: userId,
+                OR: GetNotExpiredWhere(now),
+            },
+            orderBy: {
+                createdAt: 'asc'
+            },
+        })
+    }
+
+    async getGroupInvitations(groupId: string, now: Date) {
+        return await this.prisma.userGroupInvitation.findMany({
+            where: {
+                groupId: groupId,
+                OR: GetNotExpiredWhere(now),
+            },
+            orderBy: {
+                createdAt: 'asc'
+            },
+        })
+    }
+
+    async getInvitation(userId: string, groupId: string) {
+        return await this.prisma.userGroupInvitation.findUnique({
+            where: {
+                userId_groupId: {
+                    userId: userId,
+                    groupId: groupId,
+                }
+            }
+        })
+    }
+
+    async setInvitation(data: { userId: string, groupId: string, inviterId: string, expiresAt: Date | null }) {
+        return await this.prisma.userGroupInvitation.upsert({
+            where: {
+                userId_groupId: {
+                    userId: data.userId,
+                    groupId: data.groupId,
+                }
+            },
+            update: {
+                inviterId: data.inviterId,
+                createdAt: new Date(),
+                expiresAt: data.expiresAt,
+            },
+            create: data,
+        })
+    }
+
+    async removeInvitation(userId: string, groupId: string) {
+        await this.prisma.userGroupInvitation.deleteMany({
+            where: {
+                userId: userId,
+                groupId: groupId,
+            }
+        })
+    }
+
+    async deleteExpiredInvitations(now: Date) {
+        await this.prisma.userGroupInvitation.deleteMany({
+            where: {
+                expiresAt: {
+                    lte: now,
+                }
+            }
+        })
+    }
+
+    async createMessage(data: { channel: string, groupId?: string | null, userId: string, userId2?: string | null, msg: string, rawMsg?: string | null, delivered?: boolean, replyToId?: number | null }) {
+        return await this.prisma.message.create({
+            data: data,
+        })
+    }
+
+    async getMessage(messageId: number) {
+        return await this.prisma.message.findUnique({
+            where: {
+                messageId: messageId,
+            }
+        })
+    }
+
+    async updateMessage(messageId: number, data: { msg?: string, rawMsg?: string | null, editedAt?: Date | null, deletedAt?: Date | null }) {
+        const result = await this.prisma.message.updateMany({
+            where: {
+                messageId: messageId,
+            },
+            data: data,
+        })
+        if (result.count == 0) {
+            return null
+        }
+        return await this.getMessage(messageId)
+    }
+
+    async getMessages(query: IMessageQuery, range?: IMessageRange) {
+        return await this.prisma.message.findMany({
+            where: GetMessageWhere(query, range),
+            orderBy: {
+                messageId: range && range.descending ? 'desc' : 'asc'
+            },
+            take: range ? range.take : undefined,
+        })
+    }
+
+    async countMessages(query: IMessageQuery, afterMessageId?: number) {
+        return await this.prisma.message.count({
+            where: GetMessageWhere(query, {
+                afterMessageId: afterMessageId,
+            }),
+        })
+    }
+
+    async getWhisperSenderIds(userId: string) {
+        const senders = await this.prisma.message.groupBy({
+            by: ['userId'],
+            where: {
+                channel: "whisper",
+                userId2: userId,
+                // Forgotten users are not senders anymore
+                userId: {
+                    not: FORGOTTEN_USER_ID
+                },
+            }
+        })
+        const userIds: Array<string> = []
+        for (const sender of senders) {
+            userIds.push(sender.userId)
+        }
+        return userIds
+    }
+
+    async markMessagesDelivered(messageIds: Array<number>) {
+        await this.prisma.message.updateMany({
+            where: {
+                messageId: {
+                    in: messageIds
+                }
+            },
+            data: {
+                delivered: true,
+            }
+        })
+    }
+
+    async deleteMessages(channels: Array<string>, createdBefore: Date, take: number) {
+        const messages = await this.prisma.message.findMany({
+            where: {
+                channel: {
+                    in: channels
+                },
+                createdAt: {
+                    lt: createdBefore
+                },
+            },
+            select: {
+                messageId: true,
+            },
+            orderBy: {
+                messageId: 'asc'
+            },
+            take: take,
+        })
+        if (messages.length == 0) {
+            return 0
+        }
+        const messageIds = messages.map((message: { messageId: number }) => message.messageId)
+        await this.prisma.$transaction([
+            this.prisma.messageReaction.deleteMany({
+                where: {
+                    messageId: {
+                        in: messageIds
+                    }
+                }
+            }),
+            this.prisma.message.deleteMany({
+                where: {
+                    messageId: {
+                        in: messageIds
+                    }
+                }
+            }),
+        ])
+        return messageIds.length
+    }
+
+    async getReactions(messageIds: Array<number>) {
+        return await this.prisma.messageReaction.findMany({
+            where: {
+                messageId: {
+                    in: messageIds
+                }
+            },
+            orderBy: {
+                createdAt: 'asc'
+            },
+        })
+    }
+
+    async addReaction(messageId: number, userId: string, emoji: string) {
+        const result = await this.prisma.messageReaction.createMany({
+            data: [{
+                messageId: messageId,
+                userId: userId,
+                emoji: emoji,
+            }],
+            skipDuplicates: true,
+        })
+        return result.count > 0
+    }
+
+    async removeReaction(messageId: number, userId: string, emoji: string) {
+        const result = await this.prisma.messageReaction.deleteMany({
+            where: {
+                messageId: messageId,
+                userId: userId,
+                emoji: emoji,
+            }
+        })
+        return result.count > 0
+    }
+
+    async getLastReads(userId: string) {
+        return await this.prisma.userLastRead.findMany({
+            where: {
+                userId: userId,
+            }
+        })
+    }
+
+    async getLastRead(userId: string, channel: string, targetId: string) {
+        return await this.prisma.userLastRead.findUnique({
+            where: {
+                userId_channel_targetId: {
+                    userId: userId,
+                    channel: channel,
+                    targetId: targetId,
+                }
+            }
+        })
+    }
+
+    async getLastReadsByTarget(channel: string, targetId: string, userId?: string) {
+        return await this.prisma.userLastRead.findMany({
+            where: {
+                userId: userId,
+                channel: channel,
+                targetId: targetId,
+            }
+        })
+    }
+
+    async setLastRead(userId: string, channel: string, targetId: string, lastMessageId: number) {
+        await this.prisma.userLastRead.upsert({
+            where: {
+                userId_channel_targetId: {
+                    userId: userId,
+                    channel: channel,
+                    targetId: targetId,
+                }
+            },
+            update: {
+                lastMessageId: lastMessageId,
+            },
+            create: {
+                userId: userId,
+                channel: channel,
+                targetId: targetId,
+                lastMessageId: lastMessageId,
+            },
+        })
+    }
+
+    async getActiveModeration(userId: string, type: string, now: Date) {
+        return await this.prisma.moderation.findFirst({
+            where: {
+                userId: userId,
+                type: type,
+                revokedAt: null,
+                OR: GetNotExpiredWhere(now),
+            },
+            orderBy: {
+                moderationId: 'desc'
+            },
+        })
+    }
+
+    async createModeration(data: { userId: string, type: string, reason?: string | null, expiresAt: Date | null }) {
+        return await this.prisma.moderation.create({
+            data: data,
+        })
+    }
+
+    async revokeModerations(userId: string, type: string, now: Date) {
+        const result = await this.prisma.moderation.updateMany({
+            where: {
+                userId: userId,
+                type: type,
+                revokedAt: null,
+            },
+            data: {
+                revokedAt: now,
+            }
+        })
+        return result.count
+    }
+
+    async getUserBlocks(userId: string) {
+        return await this.prisma.userBlock.findMany({
+            where: {
+                userId: userId,
+            }
+        })
+    }
+
+    async isBlocked(userId: string, blockUserId: string) {
+        const count = await this.prisma.userBlock.count({
+            where: {
+                userId: userId,
+                blockUserId: blockUserId,
+            }
+        })
+        return count > 0
+    }
+
+    async addUserBlock(userId: string, blockUserId: string) {
+        await this.prisma.userBlock.upsert({
+            where: {
+                userId_blockUserId: {
+                    userId: userId,
+                    blockUserId: blockUserId,
+                }
+            },
+            update: {},
+            create: {
+                userId: userId,
+                blockUserId: blockUserId,
+            },
+        })
+    }
+
+    async removeUserBlock(userId: string, blockUserId: string) {
+        await this.prisma.userBlock.deleteMany({
+            where: {
+                userId: userId,
+                blockUserId: blockUserId,
+            }
+        })
+    }
+
+    async getProfanityWords(locale?: string) {
+        return await this.prisma.profanityWord.findMany({
+            where: {
+                locale: locale,
+            },
+            orderBy: [
+                { locale: 'asc' },
+                { word: 'asc' },
+            ],
+        })
+    }
+
+    async addProfanityWord(locale: string, word: string, allowed: boolean) {
+        await this.prisma.profanityWord.upsert({
+            where: {
+                locale_word_allowed: {
+                    locale: locale,
+                    word: word,
+                    allowed: allowed,
+                }
+            },
+            update: {},
+            create: {
+                locale: locale,
+                word: word,
+                allowed: allowed,
+            },
+        })
+    }
+
+    async removeProfanityWords(locale: string, words: Array<string>, allowed: boolean) {
+        await this.prisma.profanityWord.deleteMany({
+            where: {
+                locale: locale,
+                word: {
+                    in: words,
+                },
+                allowed: allowed,
+            }
+        })
+    }
+
+    async getReport(reportId: number) {
+        return await this.prisma.report.findUnique({
+            where: {
+                reportId: reportId,
+            }
+        })
+    }
+
+    async getReports(query: IReportQuery) {
+        return await this.prisma.report.findMany({
+            where: {
+                status: query.status,
+                userId: query.userId,
+                reportId: {
+                    lt: query.beforeReportId,
+                },
+            },
+            orderBy: {
+                reportId: 'desc'
+            },
+            take: query.take,
+        })
+    }
+
+    async hasReport(reporterId: string, messageId: number) {
+        const count = await this.prisma.report.count({
+            where: {
+                reporterId: reporterId,
+                messageId: messageId,
+            }
+        })
+        return count > 0
+    }
+
+    async createReport(data: { reporterId: string, userId: string, messageId: number, channel: string, groupId: string | null, msg: string, context: string, reason?: string | null }) {
+        return await this.prisma.report.create({
+            data: data,
+        })
+    }
+
+    async updateReport(reportId: number, data: { status?: string, action?: string | null, note?: string | null, resolvedBy?: string | null, resolvedAt?: Date | null }) {
+        const result = await this.prisma.report.updateMany({
+            where: {
+                reportId: reportId,
+            },
+            data: data,
+        })
+        if (result.count == 0) {
+            return null
+        }
+        return await this.getReport(reportId)
+    }
+
+    async getChannels() {
+        const rows = await this.prisma.channel.findMany()
+        const list: Array<IChannelSettings> = []
+        for (const row of rows) {
+            const channel = ParseChannelSettings({
+                channelId: row.channelId,
+                title: row.title,
+                scope: row.scope,
+                postPermission: row.postPermission,
+                slowMode: row.slowMode,
+                maxMembers: row.maxMembers,
+                retainHistory: row.retainHistory,
+            })
+            if (channel) {
+                list.push(channel)
+            }
+        }
+        return list
+    }
+
+    async saveChannel(channel: IChannelSettings) {
+        await this.prisma.channel.upsert({
+            where: {
+                channelId: channel.channelId,
+            },
+            update: channel,
+            create: channel,
+        })
+    }
+
+    async deleteChannel(channelId: string) {
+        await this.prisma.channel.deleteMany({
+            where: {
+                channelId: channelId,
+            }
+        })
+    }
+
+    async getUserChannels(userId: string) {
+        return await this.prisma.channelMember.findMany({
+            where: {
+                userId: userId,
+            }
+        })
+    }
+
+    async countChannelMembers(channelId: string) {
+        return await this.prisma.channelMember.count({
+            where: {
+                channelId: channelId,
+            }
+        })
+    }
+
+    async addChannelMember(channelId: string, userId: string) {
+        await this.prisma.channelMember.upsert({
+            where: {
+                channelId_userId: {
+                    channelId: channelId,
+                    userId: userId,
+                }
+            },
+            update: {},
+            create: {
+                channelId: channelId,
+                userId: userId,
+            },
+        })
+    }
+
+    async removeChannelMember(channelId: string, userId: string) {
+        await this.prisma.channelMember.deleteMany({
+            where: {
+                channelId: channelId,
+                userId: userId,
+            }
+        })
+    }
+
+    async removeChannelMembers(channelId: string) {
+        await this.prisma.channelMember.deleteMany({
+            where: {
+                channelId: channelId,
+            }
+        })
+    }
+
+    async isTokenRevoked(tokenId: string) {
+        const count = await this.prisma.revokedToken.count({
+            where: {
+                tokenId: tokenId,
+            }
+        })
+        return count > 0
+    }
+
+    async revokeToken(data: { tokenId: string, userId: string, expiresAt: Date }) {
+        await this.prisma.revokedToken.upsert({
+            where: {
+                tokenId: data.tokenId,
+            },
+            update: {},
+            create: data,
+        })
+    }
+
+    async deleteExpiredRevokedTokens(now: Date) {
+        await this.prisma.revokedToken.deleteMany({
+            where: {
+                expiresAt: {
+                    lt: now,
+                }
+            }
+        })
+    }
+
+    async createWebhookDelivery(data: { url: string, event: string, payload: string }) {
+        return await this.prisma.webhookDelivery.create({
+            data: data,
+        })
+    }
+
+    async getDueWebhookDeliveries(now: Date, take: number) {
+        return await this.prisma.webhookDelivery.findMany({
+            where: {
+                deliveredAt: null,
+                failedAt: null,
+                nextAttemptAt: {
+                    lte: now,
+                },
+            },
+            orderBy: {
+                deliveryId: 'asc',
+            },
+            take: take,
+        })
+    }
+
+    async claimWebhookDelivery(deliveryId: number, nextAttemptAt: Date, claimUntil: Date) {
+        const result = await this.prisma.webhookDelivery.updateMany({
+            where: {
+                deliveryId: deliveryId,
+                nextAttemptAt: nextAttemptAt,
+            },
+            data: {
+                nextAttemptAt: claimUntil,
+            }
+        })
+        return result.count > 0
+    }
+
+    async updateWebhookDelivery(deliveryId: number, data: Partial<IWebhookDeliveryRecord>) {
+        await this.prisma.webhookDelivery.update({
+            where: {
+                deliveryId: deliveryId,
+            },
+            data: data,
+        })
+    }
+
+    async forgetUser(userId: string, now: Date) {
+        // Context is JSON, so reports which may contain the user's messages are rewritten one by one
+        const reports = await this.prisma.report.findMany({
+            where: {
+                context: {
+                    contains: JSON.stringify(userId),
+                }
+            }
+        })
+        const reportUpdates = []
+        for (const report of reports) {
+            const context = AnonymizeReportContext(report.context, userId)
+            if (context === null) {
+                continue
+            }
+            reportUpdates.push(this.prisma.report.update({
+                where: {
+                    reportId: report.reportId,
+                },
+                data: {
+                    context: context,
+                }
+            }))
+        }
+        await this.prisma.$transaction([
+            this.prisma.user.deleteMany({
+                where: {
+                    userId: userId,
+                }
+            }),
+            this.prisma.userGroup.deleteMany({
+                where: {
+                    userId: userId,
+                }
+            }),
+            this.prisma.userGroupInvitation.deleteMany({
+                where: {
+                    userId: userId,
+                }
+            }),
+            this.prisma.userGroupInvitation.updateMany({
+                where: {
+                    inviterId: userId,
+                },
+                data: {
+                    inviterId: null,
+                }
+            }),
+            // Set deletion time before the sender is replaced, messages which were deleted already keep their time
+            this.prisma.message.updateMany({
+                where: {
+                    userId: userId,
+                    deletedAt: null,
+                },
+                data: {
+                    deletedAt: now,
+                }
+            }),
+            this.prisma.message.updateMany({
+                where: {
+                    userId: userId,
+                },
+                data: {
+                    userId: FORGOTTEN_USER_ID,
+                    msg: "",
+                    rawMsg: null,
+                }
+            }),
+            this.prisma.message.updateMany({
+                where: {
+                    userId2: userId,
+                },
+                data: {
+                    userId2: FORGOTTEN_USER_ID,
+                }
+            }),
+            this.prisma.messageReaction.deleteMany({
+                where: {
+                    userId: userId,
+                }
+            }),
+            // Read positions of the user, and other users' positions of whispers with the user
+            this.prisma.userLastRead.deleteMany({
+                where: {
+                    OR: [
+                        { userId: userId },
+                        { channel: "whisper", targetId: userId },
+                    ]
+                }
+            }),
+            // Active moderations are kept without their reasons, so the user can't escape them by being forgotten
+            this.prisma.moderation.deleteMany({
+                where: {
+                    userId: userId,
+                    NOT: {
+                        revokedAt: null,
+                        OR: GetNotExpiredWhere(now),
+                    },
+                }
+            }),
+            this.prisma.moderation.updateMany({
+                where: {
+                    userId: userId,
+                },
+                data: {
+                    reason: null,
+                }
+            }),
+            this.prisma.userBlock.deleteMany({
+                where: {
+                    OR: [
+                        { userId: userId },
+                        { blockUserId: userId },
+                    ]
+                }
+            }),
+            this.prisma.report.updateMany({
+                where: {
+                    reporterId: userId,
+                },
+                data: {
+                    reporterId: FORGOTTEN_USER_ID,
+                }
+            }),
+            this.prisma.report.updateMany({
+                where: {
+                    userId: userId,
+                },
+                data: {
+                    userId: FORGOTTEN_USER_ID,
+                    msg: "",
+                }
+            }),
+            this.prisma.report.updateMany({
+                where: {
+                    resolvedBy: userId,
+                },
+                data: {
+                    resolvedBy: FORGOTTEN_USER_ID,
+                }
+            }),
+            ...reportUpdates,
+            this.prisma.channelMember.deleteMany({
+                where: {
+                    userId: userId,
+                }
+            }),
+            this.prisma.revokedToken.deleteMany({
+                where: {
+                    userId: userId,
+                }
+            }),
+            // Deliveries which are not sent yet are kept, the receiver may have to know about the user
+            this.prisma.webhookDelivery.deleteMany({
+                where: {
+                    payload: {
+                        contains: JSON.stringify(userId),
+                    },
+                    OR: [
+                        { deliveredAt: { not: null } },
+                        { failedAt: { not: null } },
+                    ]
+                }
+            }),
+        ])
+    }
+
+    async ping() {
+        await this.prisma.$queryRaw`SELECT 1`
+    }
+
+    async close() {
+        await this.prisma.$disconnect()
+    }
+}
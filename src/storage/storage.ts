@@ -0,0 +1,330 @@
+import { IChannelSettings } from '../channels'
+
+// Replaces IDs of forgotten users in records which are kept for other users, such as their messages and reports
+export const FORGOTTEN_USER_ID = ""
+
+// Records are plain objects, they can be changed by callers without affecting stored data
+
+export interface IUserRecord {
+    userId: string
+    name: string
+    iconUrl: string | null
+    lastSeenAt: Date | null
+    tokensRevokedAt: Date | null
+}
+
+export interface IGroupRecord {
+    groupId: string
+    title: string
+    iconUrl: string | null
+    profanityFilter: string
+    // Set when the last member left
+    archivedAt: Date | null
+}
+
+export interface IUserGroupRecord {
+    userId: string
+    groupId: string
+    // 0 = member, 1 = moderator, 2 = owner
+    role: number
+    joinedAt: Date
+}
+
+export interface IUserGroupInvitationRecord {
+    userId: string
+    groupId: string
+    // `null` for invitations which were created before inviters were recorded, or whose inviter was forgotten
+    inviterId: string | null
+    createdAt: Date
+    // `null` = never expires
+    expiresAt: Date | null
+}
+
+export interface IMessageRecord {
+    messageId: number
+    channel: string
+    groupId: string | null
+    userId: string
+    userId2: string | null
+    msg: string
+    // Uncensored message, it is set only when the message was censored
+    rawMsg: string | null
+    delivered: boolean
+    replyToId: number | null
+    editedAt: Date | null
+    // Deleted messages are kept for reports
+    deletedAt: Date | null
+    createdAt: Date
+}
+
+export interface IMessageReactionRecord {
+    messageId: number
+    userId: string
+    emoji: string
+    createdAt: Date
+}
+
+export interface IUserLastReadRecord {
+    userId: string
+    channel: string
+    targetId: string
+    lastMessageId: number
+}
+
+export interface IModerationRecord {
+    moderationId: number
+    userId: string
+    // "mute" or "ban"
+    type: string
+    reason: string | null
+    expiresAt: Date | null
+    revokedAt: Date | null
+    createdAt: Date
+}
+
+export interface IUserBlockRecord {
+    userId: string
+    blockUserId: string
+    createdAt: Date
+}
+
+export interface IWebhookDeliveryRecord {
+    deliveryId: number
+    url: string
+    event: string
+    payload: string
+    attempts: number
+    lastError: string | null
+    nextAttemptAt: Date
+    deliveredAt: Date | null
+    failedAt: Date | null
+    createdAt: Date
+}
+
+export interface IProfanityWordRecord {
+    locale: string
+    word: string
+    allowed: boolean
+    createdAt: Date
+}
+
+export interface IReportRecord {
+    reportId: number
+    reporterId: string
+    userId: string
+    messageId: number
+    channel: string
+    groupId: string | null
+    msg: string
+    // JSON of messages around the reported message
+    context: string
+    reason: string | null
+    status: string
+    action: string | null
+    note: string | null
+    resolvedBy: string | null
+    resolvedAt: Date | null
+    createdAt: Date
+}
+
+export interface IChannelMemberRecord {
+    channelId: string
+    userId: string
+    joinedAt: Date
+}
+
+export interface IRevokedTokenRecord {
+    tokenId: string
+    userId: string
+    expiresAt: Date
+    createdAt: Date
+}
+
+// Messages of a conversation, unset fields are not filtered
+export interface IMessageQuery {
+    // Messages of every channels if it is not set, such as the user's messages for exports
+    channel?: string
+    groupId?: string
+    // Sender
+    userId?: string
+    // Receiver of whispers
+    userId2?: string
+    // Whispers between both users, in both directions
+    betweenUserIds?: [string, string]
+    // Skip messages which were sent by this user
+    excludeUserId?: string
+    delivered?: boolean
+}
+
+export interface IMessageRange {
+    // Exclusive bounds of message ID
+    beforeMessageId?: number
+    afterMessageId?: number
+    // Newest messages first if `true`
+    descending?: boolean
+    take?: number
+    // Creation time, inclusive start and exclusive end
+    createdFrom?: Date
+    createdBefore?: Date
+}
+
+export interface IReportQuery {
+    status?: string
+    userId?: string
+    // Exclusive upper bound of report ID, newest reports are returned first
+    beforeReportId?: number
+    take?: number
+}
+
+// Used by the webhook dispatcher, so it can be tested without the whole storage
+export interface IWebhookDeliveryStorage {
+    createWebhookDelivery(data: { url: string, event: string, payload: string }): Promise<IWebhookDeliveryRecord>
+    getDueWebhookDeliveries(now: Date, take: number): Promise<Array<IWebhookDeliveryRecord>>
+    // Returns `false` if other instance has claimed the delivery (its `nextAttemptAt` was changed)
+    claimWebhookDelivery(deliveryId: number, nextAttemptAt: Date, claimUntil: Date): Promise<boolean>
+    updateWebhookDelivery(deliveryId: number, data: Partial<Pick<IWebhookDeliveryRecord, "attempts" | "lastError" | "nextAttemptAt" | "deliveredAt" | "failedAt">>): Promise<void>
+}
+
+export interface IChatStorage extends IWebhookDeliveryStorage {
+    // Users
+    getUser(userId: string): Promise<IUserRecord | null>
+    getUsers(userIds: Array<string>): Promise<Array<IUserRecord>>
+    // Create the user or update name and icon of existing user, unset icon won't be changed
+    // Tokens which were issued before the user was created are revoked, they may belong to a forgotten user who had the same ID
+    saveUser(data: { userId: string, name: string, iconUrl?: string | null }): Promise<IUserRecord>
+    // Does nothing if the user doesn't exist
+    updateUser(userId: string, data: Partial<Pick<IUserRecord, "lastSeenAt" | "tokensRevokedAt">>): Promise<void>
+
+    // Groups, returns every groups if `groupIds` is not set
+    getGroup(groupId: string): Promise<IGroupRecord | null>
+    getGroups(groupIds?: Array<string>): Promise<Array<IGroupRecord>>
+    createGroup(data: { groupId: string, title: string, iconUrl?: string | null, profanityFilter?: string }): Promise<IGroupRecord>
+    // Unset fields won't be changed, returns `null` if the group doesn't exist
+    updateGroup(groupId: string, data: { title?: string, iconUrl?: string | null, profanityFilter?: string, archivedAt?: Date | null }): Promise<IGroupRecord | null>
+    // Delete the group with its members and invitations
+    deleteGroup(groupId: string): Promise<void>
+
+    // Group members
+    getUserGroup(userId: string, groupId: string): Promise<IUserGroupRecord | null>
+    getUserGroups(userId: string): Promise<Array<IUserGroupRecord>>
+    // Ordered by join time, oldest first, members who joined at the same time are ordered by user id
+    getGroupMembers(groupIds: Array<string>): Promise<Array<IUserGroupRecord>>
+    // Add the user to the group, or replace the user's role if the user is already in the group
+    setUserGroup(userId: string, groupId: string, role: number): Promise<void>
+    removeUserGroup(userId: string, groupId: string): Promise<void>
+
+    // Group invitations, lists contain only invitations which are not expired at `now`
+    getInvitations(userId: string, now: Date): Promise<Array<IUserGroupInvitationRecord>>
+    getGroupInvitations(groupId: string, now: Date): Promise<Array<IUserGroupInvitationRecord>>
+    // Returns the invitation even if it is expired
+    getInvitation(userId: string, groupId: string): Promise<IUserGroupInvitationRecord | null>
+    // Replace the user's invitation to the group if it exists
+    setInvitation(data: { userId: string, groupId: string, inviterId: string, expiresAt: Date | null }): Promise<IUserGroupInvitationRecord>
+    removeInvitation(userId: string, groupId: string): Promise<void>
+    deleteExpiredInvitations(now: Date): Promise<void>
+
+    // Messages
+    createMessage(data: { channel: string, groupId?: string | null, userId: string, userId2?: string | null, msg: string, rawMsg?: string | null, delivered?: boolean, replyToId?: number | null }): Promise<IMessageRecord>
+    getMessage(messageId: number): Promise<IMessageRecord | null>
+    // Returns `null` if the message doesn't exist
+    updateMessage(messageId: number, data: Partial<Pick<IMessageRecord, "msg" | "rawMsg" | "editedAt" | "deletedAt">>): Promise<IMessageRecord | null>
+    // Ordered by message ID, oldest first unless `range.descending` is `true`
+    getMessages(query: IMessageQuery, range?: IMessageRange): Promise<Array<IMessageRecord>>
+    countMessages(query: IMessageQuery, afterMessageId?: number): Promise<number>
+    // Users who sent whispers to the user, except forgotten users
+    getWhisperSenderIds(userId: string): Promise<Array<string>>
+    markMessagesDelivered(messageIds: Array<number>): Promise<void>
+    // Delete messages of the channels which were created before `createdBefore` with their reactions, oldest first,
+    // returns amount of deleted messages which is at most `take`
+    deleteMessages(channels: Array<string>, createdBefore: Date, take: number): Promise<number>
+
+    // Reactions, ordered by creation time, emojis are compared by their code points
+    getReactions(messageIds: Array<number>): Promise<Array<IMessageReactionRecord>>
+    // Returns `false` if the user has reacted by the emoji already
+    addReaction(messageId: number, userId: string, emoji: string): Promise<boolean>
+    // Returns `false` if the user has not reacted by the emoji
+    removeReaction(messageId: number, userId: string, emoji: string): Promise<boolean>
+
+    // Read positions
+    getLastReads(userId: string): Promise<Array<IUserLastReadRecord>>
+    getLastRead(userId: string, channel: string, targetId: string): Promise<IUserLastReadRecord | null>
+    // Read positions of every users who read the conversation, or only the user's position if `userId` is set
+    getLastReadsByTarget(channel: string, targetId: string, userId?: string): Promise<Array<IUserLastReadRecord>>
+    setLastRead(userId: string, channel: string, targetId: string, lastMessageId: number): Promise<void>
+
+    // Moderation
+    // Latest one which is not revoked and not expired at `now`
+    getActiveModeration(userId: string, type: string, now: Date): Promise<IModerationRecord | null>
+    createModeration(data: { userId: string, type: string, reason?: string | null, expiresAt: Date | null }): Promise<IModerationRecord>
+    // Returns amount of revoked moderation
+    revokeModerations(userId: string, type: string, now: Date): Promise<number>
+
+    // Blocks
+    getUserBlocks(userId: string): Promise<Array<IUserBlockRecord>>
+    isBlocked(userId: string, blockUserId: string): Promise<boolean>
+    addUserBlock(userId: string, blockUserId: string): Promise<void>
+    removeUserBlock(userId: string, blockUserId: string): Promise<void>
+
+    // Profanity words, ordered by locale then word
+    getProfanityWords(locale?: string): Promise<Array<IProfanityWordRecord>>
+    addProfanityWord(locale: string, word: string, allowed: boolean): Promise<void>
+    removeProfanityWords(locale: string, words: Array<string>, allowed: boolean): Promise<void>
+
+    // Reports
+    getReport(reportId: number): Promise<IReportRecord | null>
+    getReports(query: IReportQuery): Promise<Array<IReportRecord>>
+    hasReport(reporterId: string, messageId: number): Promise<boolean>
+    createReport(data: { reporterId: string, userId: string, messageId: number, channel: string, groupId: string | null, msg: string, context: string, reason?: string | null }): Promise<IReportRecord>
+    updateReport(reportId: number, data: Partial<Pick<IReportRecord, "status" | "action" | "note" | "resolvedBy" | "resolvedAt">>): Promise<IReportRecord | null>
+
+    // Channels which are managed by admin routes
+    getChannels(): Promise<Array<IChannelSettings>>
+    saveChannel(channel: IChannelSettings): Promise<void>
+    deleteChannel(channelId: string): Promise<void>
+
+    // Channel members
+    getUserChannels(userId: string): Promise<Array<IChannelMemberRecord>>
+    countChannelMembers(channelId: string): Promise<number>
+    addChannelMember(channelId: string, userId: string): Promise<void>
+    removeChannelMember(channelId: string, userId: string): Promise<void>
+    removeChannelMembers(channelId: string): Promise<void>
+
+    // Revoked tokens
+    isTokenRevoked(tokenId: string): Promise<boolean>
+    revokeToken(data: { tokenId: string, userId: string, expiresAt: Date }): Promise<void>
+    deleteExpiredRevokedTokens(now: Date): Promise<void>
+
+    // Delete the user's data, messages and reports are kept for other users but the user's ID and text are removed from them,
+    // active moderations are kept so they still apply if the user is created again
+    forgetUser(userId: string, now: Date): Promise<void>
+
+    // Throws if the database can't be reached
+    ping(): Promise<void>
+    close(): Promise<void>
+}
+
+// Messages of the forgotten user in a report's context, returns `null` if the context doesn't contain them
+export function AnonymizeReportContext(context: string, userId: string): string | null {
+    let list: any
+    try {
+        list = JSON.parse(context)
+    } catch {
+        return null
+    }
+    if (!Array.isArray(list)) {
+        return null
+    }
+    let changed = false
+    for (const message of list) {
+        if (message.userId == userId) {
+            message.userId = FORGOTTEN_USER_ID
+            message.msg = ""
+            changed = true
+        }
+        if (message.userId2 == userId) {
+            message.userId2 = FORGOTTEN_USER_ID
+            changed = true
+        }
+    }
+    return changed ? JSON.stringify(list) : null
+}
@@ -0,0 +1,21 @@
+export interface IClientData {
+    userId: string
+    name: string
+    // ID of the token which the user connected by
+    tokenId: string
+    // Used to choose profanity word list, such as "en" or "th-TH"
+    locale?: string
+    // Included in every logs of the socket
+    correlationId: string
+    // Set when the client reconnected by a resume token
+    resumed?: boolean
+    // Last message which the resumed client received, newer group messages and whispers will be sent again
+    lastMessageId?: number
+}
+
+export interface IPosition {
+    map: string
+    x: number
+    y: number
+    z: number
+}
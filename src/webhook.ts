@@ -0,0 +1,192 @@
+import crypto from 'crypto'
+import http from 'http'
+import https from 'https'
+import { ChatLogger } from './logger'
+import { IWebhookDeliveryRecord, IWebhookDeliveryStorage } from './storage/storage'
+
+export type WebhookEvent =
+    "group-create" |
+    "group-delete" |
+    "group-archive" |
+    "group-join" |
+    "group-leave" |
+    "group-invite" |
+    "group-invite-accept" |
+    "group-invite-decline" |
+    "group-invite-cancel" |
+    "message-report" |
+    "user-forget"
+
+export interface IWebhookOptions {
+    urls: Array<string>
+    // Key which will be used to sign the request body, receivers should verify the signature by the same key
+    secret: string
+    maxAttempts: number
+    // Retry delay will be doubled after each failed attempt, until it reaches `maxRetryDelayMs`
+    retryDelayMs: number
+    maxRetryDelayMs: number
+    requestTimeoutMs: number
+    // Max amount of deliveries which will be sent per round
+    batchSize: number
+}
+
+export interface IWebhookPayload {
+    event: WebhookEvent
+    data: any
+    timestamp: number
+}
+
+export function SignWebhookPayload(secret: string, timestamp: number, body: string) {
+    return "sha256=" + crypto.createHmac("sha256", secret).update(timestamp + "." + body).digest("hex")
+}
+
+export function GetWebhookRetryDelay(attempts: number, retryDelayMs: number, maxRetryDelayMs: number) {
+    return Math.min(maxRetryDelayMs, retryDelayMs * Math.pow(2, Math.max(0, attempts - 1)))
+}
+
+export class WebhookDispatcher {
+    private storage: IWebhookDeliveryStorage
+    private options: IWebhookOptions
+    private logger: ChatLogger
+    private processing: Promise<void> | null = null
+    private timer: NodeJS.Timeout | null = null
+
+    constructor(storage: IWebhookDeliveryStorage, options: IWebhookOptions, logger: ChatLogger = new ChatLogger()) {
+        this.storage = storage
+        this.options = options
+        this.logger = logger
+        if (this.options.urls.length > 0 && !this.options.secret) {
+            this.logger.warn("Webhooks are disabled because the secret is empty, receivers can't verify unsigned requests")
+        }
+    }
+
+    // Requests must be signed, so webhooks won't be sent without the secret
+    get enabled() {
+        return this.options.urls.length > 0 && this.options.secret.length > 0
+    }
+
+    start(intervalMs: number) {
+        if (!this.enabled || this.timer) {
+            return
+        }
+        this.timer = setInterval(() => {
+            this.process().catch(err => this.logger.error("Cannot process webhook deliveries", { error: err }))
+        }, intervalMs)
+    }
+
+    // Wait for the current round, deliveries which are not sent yet will be sent after the server restarted
+    async stop() {
+        if (this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+        if (this.processing) {
+            await this.processing.catch(() => { })
+        }
+    }
+
+    // Store deliveries before sending, so they won't be lost if the server restarts
+    async enqueue(event: WebhookEvent, data: any) {
+        if (!this.enabled) {
+            return
+        }
+        const payload: IWebhookPayload = {
+            event: event,
+            data: data,
+            timestamp: Date.now(),
+        }
+        const body = JSON.stringify(payload)
+        for (const url of this.options.urls) {
+            await this.storage.createWebhookDelivery({
+                url: url,
+                event: event,
+                payload: body,
+            })
+        }
+        this.process().catch(err => this.logger.error("Cannot process webhook deliveries", { error: err }))
+    }
+
+    // Send deliveries which are due, if it is already sending, wait for the current round
+    process() {
+        if (!this.processing) {
+            this.processing = this.processDue().finally(() => {
+                this.processing = null
+            })
+        }
+        return this.processing
+    }
+
+    private async processDue() {
+        const now = new Date()
+        const deliveries = await this.storage.getDueWebhookDeliveries(now, this.options.batchSize)
+        for (const delivery of deliveries) {
+            // Claim the delivery, other instances which read the same row won't be able to update it
+            const claimed = await this.storage.claimWebhookDelivery(delivery.deliveryId, delivery.nextAttemptAt, new Date(now.getTime() + this.options.requestTimeoutMs * 2))
+            if (!claimed) {
+                continue
+            }
+            await this.deliver(delivery)
+        }
+    }
+
+    private async deliver(delivery: IWebhookDeliveryRecord) {
+        const attempts = delivery.attempts + 1
+        try {
+            await this.post(delivery.deliveryId, delivery.url, delivery.event, delivery.payload)
+            await this.storage.updateWebhookDelivery(delivery.deliveryId, {
+                attempts: attempts,
+                lastError: null,
+                deliveredAt: new Date(),
+            })
+        } catch (err: any) {
+            const failed = attempts >= this.options.maxAttempts
+            await this.storage.updateWebhookDelivery(delivery.deliveryId, {
+                attempts: attempts,
+                lastError: String(err && err.message ? err.message : err),
+                nextAttemptAt: new Date(Date.now() + GetWebhookRetryDelay(attempts, this.options.retryDelayMs, this.options.maxRetryDelayMs)),
+                failedAt: failed ? new Date() : null,
+            })
+            if (failed) {
+                this.logger.warn("Webhook delivery failed", {
+                    deliveryId: delivery.deliveryId,
+                    url: delivery.url,
+                    event: delivery.event,
+                    attempts: attempts,
+                    error: err,
+                })
+            }
+        }
+    }
+
+    private post(deliveryId: number, url: string, event: string, body: string) {
+        return new Promise<void>((resolve, reject) => {
+            const timestamp = Date.now()
+            const request = (url.startsWith("https:") ? https : http).request(url, {
+                method: "POST",
+                timeout: this.options.requestTimeoutMs,
+                headers: {
+                    "Content-Type": "application/json",
+                    "Content-Length": Buffer.byteLength(body),
+                    "X-Webhook-Event": event,
+                    "X-Webhook-Delivery": String(deliveryId),
+                    "X-Webhook-Timestamp": String(timestamp),
+                    "X-Webhook-Signature": SignWebhookPayload(this.options.secret, timestamp, body),
+                },
+            }, (response) => {
+                // Drain the response, only the status code is used
+                response.resume()
+                const statusCode = response.statusCode || 0
+                if (statusCode >= 200 && statusCode < 300) {
+                    resolve()
+                } else {
+                    reject(new Error("Responded with status " + statusCode))
+                }
+            })
+            request.on("timeout", () => {
+                request.destroy(new Error("Request timed out"))
+            })
+            request.on("error", reject)
+            request.end(body)
+        })
+    }
+}
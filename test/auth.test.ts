@@ -0,0 +1,48 @@
+import assert from 'assert'
+import { ChatTokenIssuer } from '../src/auth'
+
+describe('ChatTokenIssuer', () => {
+    it('verifies issued tokens until they are expired', () => {
+        const tokenIssuer = new ChatTokenIssuer(['key1'], 60)
+        const issued = tokenIssuer.issue('user1', 'User 1', 'th', 0)
+        const result = tokenIssuer.verify(issued.token, 59 * 1000)
+        assert.strictEqual(result.error, undefined)
+        assert.strictEqual(result.payload?.sub, 'user1')
+        assert.strictEqual(result.payload?.name, 'User 1')
+        assert.strictEqual(result.payload?.locale, 'th')
+        assert.strictEqual(result.payload?.jti, issued.payload.jti)
+        assert.strictEqual(tokenIssuer.verify(issued.token, 60 * 1000).error, 'expired')
+    })
+
+    it('rejects modified tokens', () => {
+        const tokenIssuer = new ChatTokenIssuer(['key1'], 60)
+        const parts = tokenIssuer.issue('user1', 'User 1', undefined, 0).token.split('.')
+        const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString())
+        payload.sub = 'user2'
+        parts[1] = Buffer.from(JSON.stringify(payload)).toString('base64url')
+        assert.strictEqual(tokenIssuer.verify(parts.join('.'), 0).error, 'invalid')
+        assert.strictEqual(tokenIssuer.verify('not-a-token', 0).error, 'invalid')
+    })
+
+    it('accepts tokens which were signed by older keys after rotated', () => {
+        const oldTokenIssuer = new ChatTokenIssuer(['key1'], 60)
+        const newTokenIssuer = new ChatTokenIssuer(['key2', 'key1'], 60)
+        const removedTokenIssuer = new ChatTokenIssuer(['key2'], 60)
+        const token = oldTokenIssuer.issue('user1', 'User 1', undefined, 0).token
+        assert.strictEqual(newTokenIssuer.verify(token, 0).payload?.sub, 'user1')
+        assert.strictEqual(removedTokenIssuer.verify(token, 0).error, 'invalid')
+        assert.strictEqual(oldTokenIssuer.verify(newTokenIssuer.issue('user1', 'User 1', undefined, 0).token, 0).error, 'invalid')
+    })
+    it('issues resume tokens which keep ID of the session token', () => {
+        const tokenIssuer = new ChatTokenIssuer(['key1'], 60)
+        const session = tokenIssuer.issue('user1', 'User 1', 'th', 0).payload
+        const issued = tokenIssuer.issueResume({ userId: session.sub, name: session.name, locale: session.locale, tokenId: session.jti }, 300, 0)
+        const result = tokenIssuer.verify(issued.token, 299 * 1000)
+        assert.strictEqual(result.payload?.typ, 'resume')
+        assert.strictEqual(result.payload?.sid, session.jti)
+        assert.strictEqual(result.payload?.locale, 'th')
+        assert.notStrictEqual(result.payload?.jti, session.jti)
+        assert.strictEqual(tokenIssuer.verify(issued.token, 300 * 1000).error, 'expired')
+        assert.strictEqual(session.typ, undefined)
+    })
+})
@@ -0,0 +1,40 @@
+import assert from 'assert'
+import { BUILT_IN_CHANNELS, GetChannelEventName, MergeChannelSettings, ParseChannelSettings } from '../src/channels'
+
+describe('Channels', () => {
+    it('fills unset settings with default values', () => {
+        assert.deepStrictEqual(ParseChannelSettings({ channelId: 'trade', title: 'Trade' }), {
+            channelId: 'trade',
+            title: 'Trade',
+            scope: 'members',
+            postPermission: 'everyone',
+            slowMode: 0,
+            maxMembers: 0,
+            retainHistory: false,
+        })
+    })
+
+    it('rejects invalid settings and reserved IDs', () => {
+        assert.strictEqual(ParseChannelSettings({ channelId: 'trade' }), null)
+        assert.strictEqual(ParseChannelSettings({ channelId: 'trade', title: 'Trade', scope: 'world' }), null)
+        assert.strictEqual(ParseChannelSettings({ channelId: 'trade', title: 'Trade', slowMode: -1 }), null)
+        assert.strictEqual(ParseChannelSettings({ channelId: 'trade chat', title: 'Trade' }), null)
+        assert.strictEqual(ParseChannelSettings({ channelId: 'group', title: 'Group' }), null)
+        assert.strictEqual(ParseChannelSettings({ channelId: 'whisper', title: 'Whisper' }), null)
+    })
+
+    it('overrides channels by later lists', () => {
+        const global = ParseChannelSettings({ channelId: 'global', title: 'World', scope: 'everyone', slowMode: 5 })!
+        const trade = ParseChannelSettings({ channelId: 'trade', title: 'Trade' })!
+        const channels = MergeChannelSettings([BUILT_IN_CHANNELS, [global, trade]])
+        assert.deepStrictEqual(Object.keys(channels).sort(), ['global', 'local', 'trade'])
+        assert.strictEqual(channels['global'].slowMode, 5)
+        assert.strictEqual(channels['local'].scope, 'local')
+    })
+
+    it('sends built-in channels by their own events', () => {
+        assert.strictEqual(GetChannelEventName('global'), 'global')
+        assert.strictEqual(GetChannelEventName('local'), 'local')
+        assert.strictEqual(GetChannelEventName('trade'), 'channel')
+    })
+})
@@ -0,0 +1,17 @@
+import assert from 'assert'
+import { FormatCsv } from '../src/csv'
+
+describe('FormatCsv', () => {
+    it('quotes values which contain separators, quotes or line breaks', () => {
+        const csv = FormatCsv([
+            ['messageId', 'msg', 'deletedAt'],
+            [1, 'Hello, "world"', null],
+            [2, 'Line 1\nLine 2', new Date(0)],
+        ])
+        assert.strictEqual(csv, 'messageId,msg,deletedAt\r\n1,"Hello, ""world""",\r\n2,"Line 1\nLine 2",1970-01-01T00:00:00.000Z\r\n')
+    })
+
+    it('escapes text which would be run as formulas', () => {
+        assert.strictEqual(FormatCsv([['=1+1', '-1', -1]]), '\'=1+1,\'-1,-1\r\n')
+    })
+})
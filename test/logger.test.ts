@@ -0,0 +1,28 @@
+import assert from 'assert'
+import { ChatLogger } from '../src/logger'
+
+describe('ChatLogger', () => {
+    it('writes JSON lines with fields of child loggers', () => {
+        const lines: Array<string> = []
+        const logger = new ChatLogger('info', { service: 'chat' }, line => lines.push(line))
+        logger.child({ correlationId: 'abc' }).info('Socket connected', { userId: 'user1' })
+        const entry = JSON.parse(lines[0])
+        assert.strictEqual(entry.level, 'info')
+        assert.strictEqual(entry.msg, 'Socket connected')
+        assert.strictEqual(entry.service, 'chat')
+        assert.strictEqual(entry.correlationId, 'abc')
+        assert.strictEqual(entry.userId, 'user1')
+        assert.ok(!isNaN(Date.parse(entry.time)))
+    })
+
+    it('skips entries below the level and serializes errors', () => {
+        const lines: Array<string> = []
+        const logger = new ChatLogger('warn', {}, line => lines.push(line))
+        logger.info('Ignored')
+        logger.error('Failed', { error: new Error('Boom') })
+        assert.strictEqual(lines.length, 1)
+        const entry = JSON.parse(lines[0])
+        assert.strictEqual(entry.error.message, 'Boom')
+        assert.ok(entry.error.stack)
+    })
+})
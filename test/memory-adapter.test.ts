@@ -0,0 +1,68 @@
+import assert from 'assert'
+import { ClusterMessage } from '../src/cluster/adapter'
+import { MemoryChatAdapter, MemoryChatStore } from '../src/cluster/memory-adapter'
+
+function WaitForMessages(list: Array<ClusterMessage>, count: number) {
+    return new Promise<void>((resolve) => {
+        const check = () => {
+            if (list.length >= count) {
+                resolve()
+                return
+            }
+            setImmediate(check)
+        }
+        check()
+    })
+}
+
+describe('MemoryChatAdapter', () => {
+    let store: MemoryChatStore
+    let nodeA: MemoryChatAdapter
+    let nodeB: MemoryChatAdapter
+
+    beforeEach(() => {
+        // Two server instances which are sharing the same store
+        store = new MemoryChatStore()
+        nodeA = new MemoryChatAdapter(store, 'A')
+        nodeB = new MemoryChatAdapter(store, 'B')
+    })
+
+    afterEach(async () => {
+        await nodeA.close()
+        await nodeB.close()
+    })
+
+    it('shares presence between instances', async () => {
+        await nodeA.setPresence({ userId: 'user1', name: 'User 1', nodeId: nodeA.nodeId, socketId: 'socket1', status: 'online' })
+        assert.strictEqual((await nodeB.getPresence('user1'))?.nodeId, 'A')
+        assert.strictEqual((await nodeB.getPresenceByName('User 1'))?.userId, 'user1')
+        assert.deepStrictEqual((await nodeB.getPresences()).map(presence => presence.userId), ['user1'])
+        // Older socket must not remove newer socket's presence
+        assert.strictEqual(await nodeB.removePresence('user1', 'socket0'), false)
+        assert.notStrictEqual(await nodeA.getPresence('user1'), null)
+        assert.strictEqual(await nodeB.removePresence('user1', 'socket1'), true)
+        assert.strictEqual(await nodeA.getPresence('user1'), null)
+        assert.strictEqual(await nodeA.getPresenceByName('User 1'), null)
+    })
+
+    it('fans out published messages to every instances', async () => {
+        const receivedByA: Array<ClusterMessage> = []
+        const receivedByB: Array<ClusterMessage> = []
+        await nodeA.subscribe((message) => receivedByA.push(message))
+        await nodeB.subscribe((message) => receivedByB.push(message))
+        await nodeA.publish({ type: 'emit-group', groupId: 'group1', event: 'group', data: { groupId: 'group1', userId: 'user1', name: 'User 1', msg: 'Hello' } })
+        await WaitForMessages(receivedByA, 1)
+        await WaitForMessages(receivedByB, 1)
+        assert.deepStrictEqual(receivedByA, receivedByB)
+        assert.strictEqual(receivedByB[0].type, 'emit-group')
+    })
+
+    it('stops receiving messages after closed', async () => {
+        const receivedByB: Array<ClusterMessage> = []
+        await nodeB.subscribe((message) => receivedByB.push(message))
+        await nodeB.close()
+        await nodeA.publish({ type: 'group-add', groupId: 'group1', userId: 'user1' })
+        await new Promise((resolve) => setImmediate(resolve))
+        assert.strictEqual(receivedByB.length, 0)
+    })
+})
@@ -0,0 +1,141 @@
+import assert from 'assert'
+import { MemoryChatStorage } from '../src/storage/memory-storage'
+
+describe('MemoryChatStorage', () => {
+    let storage: MemoryChatStorage
+
+    beforeEach(() => {
+        storage = new MemoryChatStorage()
+    })
+
+    it('returns copies, so stored records are not changed by callers', async () => {
+        await storage.saveUser({ userId: 'user1', name: 'User 1' })
+        const user = (await storage.getUser('user1'))!
+        user.name = 'Changed'
+        assert.strictEqual((await storage.getUser('user1'))!.name, 'User 1')
+        // Unset icon is not changed when the user is saved again
+        await storage.saveUser({ userId: 'user1', name: 'User 1', iconUrl: 'icon.png' })
+        await storage.saveUser({ userId: 'user1', name: 'Renamed' })
+        const saved = (await storage.getUser('user1'))!
+        // Tokens which were issued before the user was created are revoked
+        assert.ok(saved.tokensRevokedAt instanceof Date)
+        assert.deepStrictEqual({ ...saved, tokensRevokedAt: null }, {
+            userId: 'user1',
+            name: 'Renamed',
+            iconUrl: 'icon.png',
+            lastSeenAt: null,
+            tokensRevokedAt: null,
+        })
+    })
+
+    it('pages messages and counts unread messages by conversation', async () => {
+        await storage.createMessage({ channel: 'whisper', userId: 'user1', userId2: 'user2', msg: 'a' })
+        await storage.createMessage({ channel: 'whisper', userId: 'user2', userId2: 'user1', msg: 'b' })
+        await storage.createMessage({ channel: 'whisper', userId: 'user1', userId2: 'user3', msg: 'c' })
+        await storage.createMessage({ channel: 'whisper', userId: 'user1', userId2: 'user2', msg: 'd' })
+        const page = await storage.getMessages({ channel: 'whisper', betweenUserIds: ['user2', 'user1'] }, { beforeMessageId: 4, descending: true, take: 1 })
+        assert.deepStrictEqual(page.map(message => message.msg), ['b'])
+        assert.strictEqual(await storage.countMessages({ channel: 'whisper', userId: 'user1', userId2: 'user2' }, 1), 1)
+        assert.deepStrictEqual(await storage.getWhisperSenderIds('user1'), ['user2'])
+    })
+
+    it('deletes group with its members and invitations', async () => {
+        await storage.createGroup({ groupId: 'group1', title: 'Group 1' })
+        await storage.setUserGroup('user1', 'group1', 2)
+        await storage.setInvitation({ userId: 'user2', groupId: 'group1', inviterId: 'user1', expiresAt: null })
+        await storage.deleteGroup('group1')
+        assert.strictEqual(await storage.getGroup('group1'), null)
+        assert.deepStrictEqual(await storage.getUserGroups('user1'), [])
+        assert.strictEqual(await storage.getInvitation('user2', 'group1'), null)
+    })
+
+    it('lists only invitations which are not expired', async () => {
+        const now = new Date()
+        await storage.setInvitation({ userId: 'user2', groupId: 'group1', inviterId: 'user1', expiresAt: new Date(now.getTime() - 1000) })
+        await storage.setInvitation({ userId: 'user3', groupId: 'group1', inviterId: 'user1', expiresAt: null })
+        assert.deepStrictEqual((await storage.getGroupInvitations('group1', now)).map(invitation => invitation.userId), ['user3'])
+        assert.deepStrictEqual(await storage.getInvitations('user2', now), [])
+        // Expired invitation can still be found until it is deleted
+        assert.strictEqual((await storage.getInvitation('user2', 'group1'))!.inviterId, 'user1')
+        await storage.deleteExpiredInvitations(now)
+        assert.strictEqual(await storage.getInvitation('user2', 'group1'), null)
+        // Inviting again replaces the invitation
+        await storage.setInvitation({ userId: 'user3', groupId: 'group1', inviterId: 'user4', expiresAt: null })
+        assert.deepStrictEqual((await storage.getInvitations('user3', now)).map(invitation => invitation.inviterId), ['user4'])
+    })
+
+    it('deletes old messages of the channels with their reactions in batches', async () => {
+        const first = await storage.createMessage({ channel: 'global', userId: 'user1', msg: 'first' })
+        await storage.createMessage({ channel: 'global', userId: 'user1', msg: 'second' })
+        await storage.createMessage({ channel: 'trade', userId: 'user1', msg: 'kept' })
+        await storage.addReaction(first.messageId, 'user2', '👍')
+        const createdBefore = new Date(Date.now() + 1000)
+        assert.strictEqual(await storage.deleteMessages(['global'], createdBefore, 1), 1)
+        assert.strictEqual(await storage.getMessage(first.messageId), null)
+        assert.deepStrictEqual(await storage.getReactions([first.messageId]), [])
+        assert.strictEqual(await storage.deleteMessages(['global'], createdBefore, 1), 1)
+        assert.strictEqual(await storage.deleteMessages(['global'], createdBefore, 1), 0)
+        // Newer messages are kept
+        await storage.createMessage({ channel: 'global', userId: 'user1', msg: 'new' })
+        assert.strictEqual(await storage.deleteMessages(['global'], new Date(0), 1), 0)
+        assert.deepStrictEqual((await storage.getMessages({})).map(message => message.msg), ['kept', 'new'])
+    })
+
+    it('adds each reaction once per user and emoji', async () => {
+        const message = await storage.createMessage({ channel: 'global', userId: 'user1', msg: 'a' })
+        assert.strictEqual(await storage.addReaction(message.messageId, 'user2', '👍'), true)
+        assert.strictEqual(await storage.addReaction(message.messageId, 'user2', '👍'), false)
+        await storage.addReaction(message.messageId, 'user3', '👍')
+        // Different emojis are different reactions, MySQL column has a binary collation to behave the same
+        assert.strictEqual(await storage.addReaction(message.messageId, 'user2', '🎉'), true)
+        assert.strictEqual(await storage.removeReaction(message.messageId, 'user2', '👍'), true)
+        assert.strictEqual(await storage.removeReaction(message.messageId, 'user2', '👍'), false)
+        assert.deepStrictEqual((await storage.getReactions([message.messageId])).map(reaction => [reaction.userId, reaction.emoji]), [['user3', '👍'], ['user2', '🎉']])
+    })
+
+    it('finds only active moderation', async () => {
+        const now = new Date()
+        await storage.createModeration({ userId: 'user1', type: 'mute', expiresAt: new Date(now.getTime() - 1000) })
+        assert.strictEqual(await storage.getActiveModeration('user1', 'mute', now), null)
+        const mute = await storage.createModeration({ userId: 'user1', type: 'mute', expiresAt: null })
+        assert.strictEqual((await storage.getActiveModeration('user1', 'mute', now))!.moderationId, mute.moderationId)
+        assert.strictEqual(await storage.revokeModerations('user1', 'mute', now), 2)
+        assert.strictEqual(await storage.getActiveModeration('user1', 'mute', now), null)
+    })
+    it('forgets the user, and removes the user from data which is kept for other users', async () => {
+        const now = new Date()
+        await storage.saveUser({ userId: 'user1', name: 'User 1' })
+        await storage.setUserGroup('user1', 'group1', 0)
+        await storage.setInvitation({ userId: 'user3', groupId: 'group1', inviterId: 'user1', expiresAt: null })
+        const whisper = await storage.createMessage({ channel: 'whisper', userId: 'user1', userId2: 'user2', msg: 'secret' })
+        const reply = await storage.createMessage({ channel: 'whisper', userId: 'user2', userId2: 'user1', msg: 'ok', replyToId: whisper.messageId })
+        await storage.addReaction(reply.messageId, 'user1', '👍')
+        await storage.addUserBlock('user2', 'user1')
+        await storage.createModeration({ userId: 'user1', type: 'ban', reason: 'Spam by user1', expiresAt: null })
+        await storage.createReport({
+            reporterId: 'user2',
+            userId: 'user1',
+            messageId: whisper.messageId,
+            channel: 'whisper',
+            groupId: null,
+            msg: 'secret',
+            context: JSON.stringify([{ messageId: whisper.messageId, userId: 'user1', userId2: 'user2', msg: 'secret' }]),
+        })
+        await storage.forgetUser('user1', now)
+        assert.strictEqual(await storage.getUser('user1'), null)
+        assert.deepStrictEqual(await storage.getUserGroups('user1'), [])
+        assert.strictEqual((await storage.getInvitation('user3', 'group1'))!.inviterId, null)
+        const messages = await storage.getMessages({ channel: 'whisper' })
+        assert.deepStrictEqual(messages.map(message => [message.userId, message.userId2, message.msg]), [['', 'user2', ''], ['user2', '', 'ok']])
+        assert.deepStrictEqual(messages[0].deletedAt, now)
+        assert.deepStrictEqual(await storage.getWhisperSenderIds('user2'), [])
+        assert.deepStrictEqual(await storage.getReactions([reply.messageId]), [])
+        assert.strictEqual(await storage.isBlocked('user2', 'user1'), false)
+        // Ban still applies if the user is created again
+        assert.strictEqual((await storage.getActiveModeration('user1', 'ban', now))!.reason, null)
+        const report = (await storage.getReports({}))[0]
+        assert.strictEqual(report.userId, '')
+        assert.strictEqual(report.msg, '')
+        assert.deepStrictEqual(JSON.parse(report.context), [{ messageId: whisper.messageId, userId: '', userId2: 'user2', msg: '' }])
+    })
+})
@@ -0,0 +1,38 @@
+import assert from 'assert'
+import { MetricRegistry } from '../src/metrics'
+
+describe('MetricRegistry', () => {
+    it('renders counters and gauges by labels', () => {
+        const metrics = new MetricRegistry()
+        const counter = metrics.counter('chat_messages_total', 'Messages')
+        counter.inc({ channel: 'group' })
+        counter.inc({ channel: 'group' }, 2)
+        counter.inc({ channel: 'say "hi"\\' })
+        metrics.gauge('chat_connected_sockets', 'Sockets', () => 5)
+        assert.strictEqual(metrics.render(), [
+            '# HELP chat_messages_total Messages',
+            '# TYPE chat_messages_total counter',
+            'chat_messages_total{channel="group"} 3',
+            'chat_messages_total{channel="say \\"hi\\"\\\\"} 1',
+            '# HELP chat_connected_sockets Sockets',
+            '# TYPE chat_connected_sockets gauge',
+            'chat_connected_sockets 5',
+        ].join('\n') + '\n')
+    })
+
+    it('renders cumulative histogram buckets', () => {
+        const metrics = new MetricRegistry()
+        const histogram = metrics.histogram('query_seconds', 'Queries', [0.1, 1])
+        histogram.observe(0.05, { action: 'find' })
+        histogram.observe(0.5, { action: 'find' })
+        histogram.observe(2, { action: 'find' })
+        const lines = metrics.render().split('\n')
+        assert.deepStrictEqual(lines.slice(2, 7), [
+            'query_seconds_bucket{action="find",le="0.1"} 1',
+            'query_seconds_bucket{action="find",le="1"} 2',
+            'query_seconds_bucket{action="find",le="+Inf"} 3',
+            'query_seconds_sum{action="find"} 2.55',
+            'query_seconds_count{action="find"} 3',
+        ])
+    })
+})
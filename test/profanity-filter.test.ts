@@ -0,0 +1,71 @@
+import assert from 'assert'
+import { ChatProfanityFilter } from '../src/profanity-filter'
+
+function CreateProfanityFilter() {
+    const profanityFilter = new ChatProfanityFilter({
+        wholeWord: false,
+        grawlix: '***',
+        defaultLocale: 'en',
+    })
+    profanityFilter.load([
+        { locale: 'en', words: ['badword'], allowedWords: ['badwordless'] },
+        { locale: 'th', words: ['คำหยาบ'], allowedWords: [] },
+    ])
+    return profanityFilter
+}
+
+describe('ChatProfanityFilter', () => {
+    it('censors words from the default locale', () => {
+        const profanityFilter = CreateProfanityFilter()
+        assert.strictEqual(profanityFilter.censor('this is a badword'), 'this is a ***')
+        assert.strictEqual(profanityFilter.censor('this is a BadWord', 'de'), 'this is a ***')
+    })
+
+    it('censors whole words only if it is enabled', () => {
+        const profanityFilter = new ChatProfanityFilter({
+            wholeWord: true,
+            grawlix: '***',
+            defaultLocale: 'en',
+        })
+        profanityFilter.load([
+            { locale: 'en', words: ['bad'], allowedWords: [] },
+        ])
+        assert.strictEqual(profanityFilter.censor('bad badminton'), '*** badminton')
+    })
+
+    it('uses locale word list with default locale words', () => {
+        const profanityFilter = CreateProfanityFilter()
+        assert.strictEqual(profanityFilter.exists('คำหยาบ', 'en'), false)
+        assert.strictEqual(profanityFilter.exists('คำหยาบ', 'th'), true)
+        assert.strictEqual(profanityFilter.exists('คำหยาบ', 'th-TH'), true)
+        assert.strictEqual(profanityFilter.exists('badword', 'th'), true)
+    })
+
+    it('skips allowed words', () => {
+        const profanityFilter = new ChatProfanityFilter({
+            wholeWord: false,
+            grawlix: '***',
+            defaultLocale: 'en',
+        })
+        profanityFilter.load([
+            { locale: 'en', words: ['bad'], allowedWords: ['badminton'] },
+        ])
+        assert.strictEqual(profanityFilter.censor('badminton is bad'), 'badminton is ***')
+        assert.strictEqual(profanityFilter.exists('play badminton'), false)
+    })
+
+    it('filters by mode', () => {
+        const profanityFilter = CreateProfanityFilter()
+        assert.strictEqual(profanityFilter.filter('a badword', 'censor'), 'a ***')
+        assert.strictEqual(profanityFilter.filter('a badword', 'reject'), null)
+        assert.strictEqual(profanityFilter.filter('a word', 'reject'), 'a word')
+        assert.strictEqual(profanityFilter.filter('a badword', 'off'), 'a badword')
+    })
+
+    it('replaces word lists when reloaded', () => {
+        const profanityFilter = CreateProfanityFilter()
+        profanityFilter.load([])
+        assert.strictEqual(profanityFilter.exists('badword'), false)
+        assert.strictEqual(profanityFilter.exists('คำหยาบ', 'th'), false)
+    })
+})
@@ -0,0 +1,92 @@
+import assert from 'assert'
+import { ChatRateLimiter } from '../src/rate-limiter'
+
+function CreateRateLimiter() {
+    return new ChatRateLimiter({
+        limits: {
+            global: { capacity: 2, refillPerSecond: 1 },
+        },
+        duplicateWindowMs: 5000,
+        muteViolations: 3,
+        violationWindowMs: 10000,
+        muteDurationMs: 60000,
+    })
+}
+
+describe('ChatRateLimiter', () => {
+    it('allows a burst up to capacity then refills over time', () => {
+        const rateLimiter = CreateRateLimiter()
+        assert.strictEqual(rateLimiter.check('user1', 'global', 'a', 0).allowed, true)
+        assert.strictEqual(rateLimiter.check('user1', 'global', 'b', 0).allowed, true)
+        const result = rateLimiter.check('user1', 'global', 'c', 0)
+        assert.strictEqual(result.allowed, false)
+        assert.strictEqual(result.reason, 'rate-limit')
+        assert.strictEqual(result.retryAfter, 1000)
+        assert.strictEqual(rateLimiter.check('user1', 'global', 'c', 1000).allowed, true)
+    })
+
+    it('limits each user and channel separately', () => {
+        const rateLimiter = CreateRateLimiter()
+        rateLimiter.check('user1', 'global', 'a', 0)
+        rateLimiter.check('user1', 'global', 'b', 0)
+        assert.strictEqual(rateLimiter.check('user2', 'global', 'a', 0).allowed, true)
+        // Channel without limit
+        assert.strictEqual(rateLimiter.check('user1', 'group', 'a', 0).allowed, true)
+    })
+
+    it('limits channels without their own limit by the default limit', () => {
+        const rateLimiter = new ChatRateLimiter({
+            limits: {
+                global: { capacity: 2, refillPerSecond: 1 },
+            },
+            defaultLimit: { capacity: 1, refillPerSecond: 1 },
+            duplicateWindowMs: 0,
+            muteViolations: 0,
+            violationWindowMs: 0,
+            muteDurationMs: 0,
+        })
+        assert.strictEqual(rateLimiter.check('user1', 'trade', 'a', 0).allowed, true)
+        assert.strictEqual(rateLimiter.check('user1', 'trade', 'b', 0).reason, 'rate-limit')
+        // Each channel has its own bucket
+        assert.strictEqual(rateLimiter.check('user1', 'guide', 'a', 0).allowed, true)
+        assert.strictEqual(rateLimiter.check('user1', 'global', 'a', 0).allowed, true)
+        assert.strictEqual(rateLimiter.check('user1', 'global', 'b', 0).allowed, true)
+        // Buckets of default limited channels are pruned after they are refilled
+        rateLimiter.prune(0)
+        assert.strictEqual(rateLimiter.check('user1', 'trade', 'c', 0).allowed, false)
+        rateLimiter.prune(60000)
+        assert.strictEqual(rateLimiter.check('user1', 'trade', 'c', 60000).allowed, true)
+    })
+
+    it('rejects duplicate messages within the window', () => {
+        const rateLimiter = CreateRateLimiter()
+        assert.strictEqual(rateLimiter.check('user1', 'group', 'Hello', 0).allowed, true)
+        const result = rateLimiter.check('user1', 'group', ' hello ', 1000)
+        assert.strictEqual(result.allowed, false)
+        assert.strictEqual(result.reason, 'duplicate')
+        assert.strictEqual(result.retryAfter, 4000)
+        assert.strictEqual(rateLimiter.check('user1', 'group', 'Hello', 5000).allowed, true)
+    })
+
+    it('mutes flooders temporarily', () => {
+        const rateLimiter = CreateRateLimiter()
+        rateLimiter.check('user1', 'group', 'spam', 0)
+        rateLimiter.check('user1', 'group', 'spam', 1)
+        rateLimiter.check('user1', 'group', 'spam', 2)
+        const result = rateLimiter.check('user1', 'group', 'spam', 3)
+        assert.strictEqual(result.allowed, false)
+        assert.strictEqual(result.reason, 'muted')
+        // Muted in every channels
+        assert.strictEqual(rateLimiter.check('user1', 'whisper', 'hi', 1000).reason, 'muted')
+        assert.strictEqual(rateLimiter.check('user1', 'whisper', 'hi', 60003).allowed, true)
+    })
+
+    it('keeps mute after pruned', () => {
+        const rateLimiter = CreateRateLimiter()
+        for (let i = 0; i < 4; ++i) {
+            rateLimiter.check('user1', 'group', 'spam', i)
+        }
+        rateLimiter.prune(30000)
+        assert.strictEqual(rateLimiter.check('user1', 'group', 'hi', 30000).reason, 'muted')
+    })
+})
@@ -0,0 +1,591 @@
+import assert from 'assert'
+import http from 'http'
+import { io, Socket } from 'socket.io-client'
+import { CreateChatServer, IChatServer, LoadChatServerConfig } from '../src/server'
+import { MemoryChatStorage } from '../src/storage/memory-storage'
+import { MemoryChatAdapter, MemoryChatStore } from '../src/cluster/memory-adapter'
+
+const SECRET_KEY = 'secret'
+
+// Game server and players talk to a real server which uses memory adapter and memory storage
+describe('Chat server', function () {
+    this.timeout(10000)
+
+    let server: IChatServer
+    let url: string
+    let sockets: Array<Socket>
+
+    before(async () => {
+        server = CreateChatServer(LoadChatServerConfig({
+            SERVER_PORT: '0',
+            SECRET_KEYS: JSON.stringify([SECRET_KEY]),
+            STORAGE: 'memory',
+            CLUSTER_ADAPTER: 'memory',
+            GROUP_USER_ADD_MODE: '0',
+            DUPLICATE_MESSAGE_WINDOW: '0',
+            LOG_REQUESTS: '0',
+            LOG_LEVEL: 'error',
+        }))
+        const port = await server.start()
+        url = 'http://127.0.0.1:' + port
+    })
+
+    after(async () => {
+        await server.stop()
+    })
+
+    beforeEach(() => {
+        sockets = []
+    })
+
+    afterEach(() => {
+        for (const socket of sockets) {
+            socket.disconnect()
+        }
+    })
+
+    // Calls admin routes as the game server
+    function Post(path: string, body: any) {
+        return Request('POST', path, body)
+    }
+
+    function Get(path: string) {
+        return Request('GET', path, {})
+    }
+
+    function Request(method: string, path: string, body: any) {
+        return new Promise<{ status: number, body: any }>((resolve, reject) => {
+            const data = JSON.stringify(body)
+            const request = http.request(url + path, {
+                method: method,
+                headers: {
+                    'Authorization': 'Bearer ' + SECRET_KEY,
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(data),
+                },
+            }, (response) => {
+                let text = ''
+                response.on('data', chunk => text += chunk)
+                response.on('end', () => {
+                    resolve({
+                        status: response.statusCode || 0,
+                        body: text.length > 0 && text[0] == '{' ? JSON.parse(text) : text,
+                    })
+                })
+            })
+            request.on('error', reject)
+            request.end(data)
+        })
+    }
+
+    function Connect(token: string | undefined) {
+        const socket = io(url, {
+            auth: token ? { token: token } : {},
+            transports: ['websocket'],
+            reconnection: false,
+            forceNew: true,
+        })
+        sockets.push(socket)
+        return socket
+    }
+
+    function Resume(resumeToken: string, lastMessageId: number) {
+        const socket = io(url, {
+            auth: { resumeToken: resumeToken, lastMessageId: lastMessageId },
+            transports: ['websocket'],
+            reconnection: false,
+            forceNew: true,
+        })
+        sockets.push(socket)
+        return socket
+    }
+
+    // Resolves when the server has set up the player, unread list is the last thing which is sent after connected
+    async function Join(userId: string, name: string) {
+        const response = await Post('/add-user', { userId: userId, name: name })
+        assert.strictEqual(response.status, 200)
+        const socket = Connect(response.body.token)
+        await WaitFor(socket, 'unread-list')
+        return socket
+    }
+
+    function WaitFor(socket: Socket, event: string, predicate: (data: any) => boolean = () => true) {
+        return new Promise<any>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                socket.off(event, listener)
+                reject(new Error('Timed out waiting for [' + event + ']'))
+            }, 2000)
+            const listener = (data: any) => {
+                if (!predicate(data)) {
+                    return
+                }
+                clearTimeout(timer)
+                socket.off(event, listener)
+                resolve(data)
+            }
+            socket.on(event, listener)
+        })
+    }
+
+    function Collect(socket: Socket, event: string) {
+        const list: Array<any> = []
+        socket.on(event, (data: any) => list.push(data))
+        return list
+    }
+
+    function Emit(socket: Socket, event: string, data: any) {
+        return new Promise<any>((resolve) => {
+            socket.emit(event, data, resolve)
+        })
+    }
+
+    // Messages to other sockets are sent before the ack, a round trip lets them arrive
+    async function Flush(socket: Socket) {
+        await Emit(socket, 'unread-list', {})
+    }
+
+    it('refuses to load unknown profanity filter modes', () => {
+        assert.strictEqual(LoadChatServerConfig({}).profanityFilterMode, 'censor')
+        assert.strictEqual(LoadChatServerConfig({ PROFANITY_FILTER_MODE: 'reject' }).profanityFilterMode, 'reject')
+        assert.throws(() => LoadChatServerConfig({ PROFANITY_FILTER_MODE: 'block' }))
+    })
+
+    it('rejects sockets without valid token', async () => {
+        const error = await WaitFor(Connect(undefined), 'connect_error')
+        assert.strictEqual(error.data.code, 'invalid-token')
+        const forged = await WaitFor(Connect('not.a.token'), 'connect_error')
+        assert.strictEqual(forged.data.code, 'invalid-token')
+    })
+
+    it('reports health, readiness and metrics', async () => {
+        assert.deepStrictEqual((await Get('/healthz')).body, { status: 'ok' })
+        assert.deepStrictEqual((await Get('/readyz')).body, { status: 'ok' })
+        const alice = await Join('alice', 'Alice')
+        await Emit(alice, 'global', { msg: 'Counted' })
+        const metrics = await Get('/metrics')
+        assert.strictEqual(metrics.status, 200)
+        // Rejected handshakes of the first test are counted too
+        assert.ok(metrics.body.indexOf('chat_rejected_validations_total{code="invalid-token",source="socket"} 2') >= 0)
+        assert.ok(metrics.body.indexOf('chat_messages_total{channel="global"}') >= 0)
+        assert.ok(metrics.body.indexOf('chat_connected_sockets 1') >= 0)
+    })
+
+    it('sends global messages to everyone', async () => {
+        const alice = await Join('alice', 'Alice')
+        const bob = await Join('bob', 'Bob')
+        const received = WaitFor(bob, 'global')
+        assert.deepStrictEqual(await Emit(alice, 'global', { msg: 'Hello everyone' }), { success: true })
+        const message = await received
+        assert.strictEqual(message.userId, 'alice')
+        assert.strictEqual(message.name, 'Alice')
+        assert.strictEqual(message.msg, 'Hello everyone')
+        // Server assigns ID and time to the message
+        assert.ok(message.messageId > 0)
+        assert.ok(!isNaN(Date.parse(message.createdAt)))
+    })
+
+    it('sends local messages to players in the same map only', async () => {
+        const alice = await Join('alice', 'Alice')
+        const bob = await Join('bob', 'Bob')
+        const carol = await Join('carol', 'Carol')
+        await Emit(bob, 'position-update', { map: 'town', x: 1, y: 1 })
+        await Emit(carol, 'position-update', { map: 'dungeon', x: 1, y: 1 })
+        const carolMessages = Collect(carol, 'local')
+        const received = WaitFor(bob, 'local')
+        assert.deepStrictEqual(await Emit(alice, 'local', { msg: 'Anyone here?', map: 'town', x: 0, y: 0 }), { success: true })
+        const message = await received
+        assert.strictEqual(message.userId, 'alice')
+        assert.strictEqual(message.map, 'town')
+        await Flush(carol)
+        assert.strictEqual(carolMessages.length, 0)
+    })
+
+    it('disconnects the older socket when the same player connects again', async () => {
+        const response = await Post('/add-user', { userId: 'alice', name: 'Alice' })
+        const first = Connect(response.body.token)
+        await WaitFor(first, 'unread-list')
+        const disconnected = WaitFor(first, 'disconnect')
+        const second = Connect(response.body.token)
+        await WaitFor(second, 'unread-list')
+        assert.strictEqual(await disconnected, 'io server disconnect')
+        assert.deepStrictEqual(await Emit(second, 'global', { msg: 'Still here' }), { success: true })
+    })
+
+    it('routes whispers to the target player only', async () => {
+        const alice = await Join('alice', 'Alice')
+        const bob = await Join('bob', 'Bob')
+        const carol = await Join('carol', 'Carol')
+        const carolMessages = Collect(carol, 'whisper')
+        const received = WaitFor(bob, 'whisper')
+        const echoed = WaitFor(alice, 'whisper')
+        assert.deepStrictEqual(await Emit(alice, 'whisper', { targetName: 'Bob', msg: 'Psst' }), { success: true })
+        const message = await received
+        assert.strictEqual(message.userId, 'alice')
+        assert.strictEqual(message.userId2, 'bob')
+        assert.strictEqual(message.msg, 'Psst')
+        assert.strictEqual((await echoed).messageId, message.messageId)
+        await Flush(carol)
+        assert.strictEqual(carolMessages.length, 0)
+        assert.deepStrictEqual(await Emit(alice, 'whisper', { targetName: 'Nobody', msg: 'Hello?' }), { success: false, code: 'user-offline' })
+    })
+
+    it('creates groups, invites players, and sends group messages to members', async () => {
+        const alice = await Join('alice', 'Alice')
+        const bob = await Join('bob', 'Bob')
+        const carol = await Join('carol', 'Carol')
+        const created = WaitFor(alice, 'create-group')
+        assert.deepStrictEqual(await Emit(alice, 'create-group', { title: 'Guild' }), { success: true })
+        const groupId = (await created).groupId
+        // Bob accepts the invitation
+        const invited = WaitFor(bob, 'group-invitation')
+        assert.deepStrictEqual(await Emit(alice, 'group-invite', { groupId: groupId, userId: 'bob' }), { success: true })
+        const invitation = await invited
+        assert.strictEqual(invitation.groupId, groupId)
+        assert.strictEqual(invitation.inviterName, 'Alice')
+        assert.ok(invitation.expiresAt)
+        const joined = WaitFor(alice, 'group-join')
+        const bobGroups = WaitFor(bob, 'group-list', data => data.list.length > 0)
+        assert.deepStrictEqual(await Emit(bob, 'group-invite-accept', { groupId: groupId }), { success: true })
+        assert.strictEqual((await joined).userId, 'bob')
+        assert.strictEqual((await bobGroups).list[0].groupId, groupId)
+        // Carol declines the invitation, so she can't accept it later
+        const carolInvited = WaitFor(carol, 'group-invitation-list', data => data.list.length > 0)
+        await Emit(alice, 'group-invite', { groupId: groupId, userId: 'carol' })
+        await carolInvited
+        const carolDeclined = WaitFor(carol, 'group-invitation-list', data => data.list.length == 0)
+        const inviterNotified = WaitFor(alice, 'group-invite-decline')
+        assert.deepStrictEqual(await Emit(carol, 'group-invite-decline', { groupId: groupId }), { success: true })
+        await carolDeclined
+        assert.deepStrictEqual(await inviterNotified, { groupId: groupId, userId: 'carol', name: 'Carol' })
+        assert.deepStrictEqual(await Emit(carol, 'group-invite-accept', { groupId: groupId }), { success: false, code: 'invitation-not-found' })
+        // Only members receive group messages
+        const carolMessages = Collect(carol, 'group')
+        const received = WaitFor(bob, 'group')
+        assert.deepStrictEqual(await Emit(alice, 'group', { groupId: groupId, msg: 'Welcome' }), { success: true })
+        const message = await received
+        assert.strictEqual(message.groupId, groupId)
+        assert.strictEqual(message.msg, 'Welcome')
+        assert.deepStrictEqual(await Emit(carol, 'group', { groupId: groupId, msg: 'Let me in' }), { success: false, code: 'not-group-member' })
+        await Flush(carol)
+        assert.strictEqual(carolMessages.length, 0)
+    })
+
+    it('lists and cancels outgoing invitations of the group', async () => {
+        const alice = await Join('alice', 'Alice')
+        const carol = await Join('carol', 'Carol')
+        const response = await Post('/create-group', { title: 'Raid', ownerId: 'alice' })
+        const groupId = response.body.groupId
+        await Emit(alice, 'group-invite', { groupId: groupId, userId: 'carol' })
+        const listed = WaitFor(alice, 'group-invite-list')
+        assert.deepStrictEqual(await Emit(alice, 'group-invite-list', { groupId: groupId }), { success: true })
+        const invites = await listed
+        assert.strictEqual(invites.groupId, groupId)
+        assert.deepStrictEqual(invites.list.map((invite: any) => [invite.userId, invite.name, invite.inviterId]), [['carol', 'Carol', 'alice']])
+        // Non-members can't see the invitations
+        assert.deepStrictEqual(await Emit(carol, 'group-invite-list', { groupId: groupId }), { success: false, code: 'not-group-member' })
+        const carolInvitations = WaitFor(carol, 'group-invitation-list', data => !data.list.some((group: any) => group.groupId == groupId))
+        assert.deepStrictEqual(await Emit(alice, 'group-invite-cancel', { groupId: groupId, userId: 'carol' }), { success: true })
+        await carolInvitations
+        assert.deepStrictEqual(await Emit(carol, 'group-invite-accept', { groupId: groupId }), { success: false, code: 'invitation-not-found' })
+    })
+
+    it('kicks members out of the group', async () => {
+        const alice = await Join('alice', 'Alice')
+        const bob = await Join('bob', 'Bob')
+        const response = await Post('/create-group', { title: 'Party', ownerId: 'alice' })
+        const groupId = response.body.groupId
+        // Group has one owner already
+        assert.strictEqual((await Post('/add-group-user', { groupId: groupId, userId: 'bob', role: 2 })).status, 400)
+        await Post('/add-group-user', { groupId: groupId, userId: 'bob' })
+        // Members can't kick the owner
+        assert.deepStrictEqual(await Emit(bob, 'kick-user', { groupId: groupId, userId: 'alice' }), { success: false, code: 'no-permission' })
+        const left = WaitFor(alice, 'group-leave')
+        const bobGroups = WaitFor(bob, 'group-list', data => !data.list.some((group: any) => group.groupId == groupId))
+        assert.deepStrictEqual(await Emit(alice, 'kick-user', { groupId: groupId, userId: 'bob' }), { success: true })
+        assert.strictEqual((await left).groupId, groupId)
+        await bobGroups
+        assert.deepStrictEqual(await Emit(bob, 'group', { groupId: groupId, msg: 'Wait' }), { success: false, code: 'not-group-member' })
+        assert.deepStrictEqual(await Emit(bob, 'group-user-list', { groupId: groupId }), { success: false, code: 'not-group-member' })
+        assert.strictEqual((await Post('/remove-group-user', { groupId: groupId, userId: 'bob' })).status, 404)
+    })
+
+    it('hands ownership to the oldest member and archives empty groups', async () => {
+        const alice = await Join('alice', 'Alice')
+        const bob = await Join('bob', 'Bob')
+        const carol = await Join('carol', 'Carol')
+        const response = await Post('/create-group', { title: 'Caravan', ownerId: 'alice' })
+        const groupId = response.body.groupId
+        await Post('/add-group-user', { groupId: groupId, userId: 'bob' })
+        await Post('/add-group-user', { groupId: groupId, userId: 'carol' })
+        const roleChanged = WaitFor(carol, 'group-role', data => data.groupId == groupId)
+        assert.deepStrictEqual(await Emit(alice, 'leave-group', { groupId: groupId }), { success: true })
+        assert.deepStrictEqual(await roleChanged, { groupId: groupId, userId: 'bob', role: 2 })
+        await Emit(carol, 'leave-group', { groupId: groupId })
+        await Emit(bob, 'leave-group', { groupId: groupId })
+        const group = await Get('/group?groupId=' + groupId)
+        assert.ok(group.body.archivedAt)
+        assert.deepStrictEqual(group.body.members, [])
+        // Adding a member restores the group
+        await Post('/add-group-user', { groupId: groupId, userId: 'alice' })
+        assert.strictEqual((await Get('/group?groupId=' + groupId)).body.archivedAt, null)
+    })
+
+    it('sends replies, mentions, edits, deletes and reactions of group messages', async () => {
+        const alice = await Join('alice', 'Alice')
+        const bob = await Join('bob', 'Bob')
+        const response = await Post('/create-group', { title: 'Squad', ownerId: 'alice' })
+        const groupId = response.body.groupId
+        await Post('/add-group-user', { groupId: groupId, userId: 'bob' })
+        const received = WaitFor(bob, 'group')
+        await Emit(alice, 'group', { groupId: groupId, msg: 'Ready?' })
+        const parent = await received
+        assert.ok(parent.messageId > 0)
+        assert.ok(parent.createdAt)
+        assert.strictEqual(parent.replyToId, null)
+        // Reply which mentions the sender of the parent message
+        const mentioned = WaitFor(alice, 'mention')
+        const reply = WaitFor(alice, 'group', data => data.userId == 'bob')
+        assert.deepStrictEqual(await Emit(bob, 'group', { groupId: groupId, msg: '@Alice yes', replyToId: parent.messageId }), { success: true })
+        assert.strictEqual((await reply).replyToId, parent.messageId)
+        assert.deepStrictEqual((await reply).mentions, ['alice'])
+        const mention = await mentioned
+        assert.strictEqual(mention.messageId, (await reply).messageId)
+        assert.strictEqual(mention.name, 'Bob')
+        // Only messages of the same conversation can be replied
+        assert.deepStrictEqual(await Emit(bob, 'group', { groupId: groupId, msg: 'Hmm', replyToId: 999999 }), { success: false, code: 'message-not-found' })
+        // Only the sender can edit the message
+        assert.deepStrictEqual(await Emit(bob, 'edit-message', { messageId: parent.messageId, msg: 'Hacked' }), { success: false, code: 'no-permission' })
+        const edited = WaitFor(bob, 'message-edit')
+        assert.deepStrictEqual(await Emit(alice, 'edit-message', { messageId: parent.messageId, msg: 'Ready now?' }), { success: true })
+        assert.strictEqual((await edited).msg, 'Ready now?')
+        const reacted = WaitFor(alice, 'reaction')
+        assert.deepStrictEqual(await Emit(bob, 'add-reaction', { messageId: parent.messageId, emoji: '👍' }), { success: true })
+        assert.deepStrictEqual(await reacted, { messageId: parent.messageId, channel: 'group', groupId: groupId, userId: 'bob', emoji: '👍', added: true })
+        const deleted = WaitFor(bob, 'message-delete')
+        assert.deepStrictEqual(await Emit(alice, 'delete-message', { messageId: parent.messageId }), { success: true })
+        assert.strictEqual((await deleted).messageId, parent.messageId)
+        const history = WaitFor(bob, 'group-history')
+        await Emit(bob, 'group-history', { groupId: groupId })
+        const message = (await history).list.find((message: any) => message.messageId == parent.messageId)
+        assert.strictEqual(message.msg, '')
+        assert.ok(message.deletedAt)
+        assert.deepStrictEqual(message.reactions, [{ emoji: '👍', userIds: ['bob'] }])
+    })
+
+    it('lets the owner delete the group', async () => {
+        const alice = await Join('alice', 'Alice')
+        const bob = await Join('bob', 'Bob')
+        const response = await Post('/create-group', { title: 'Crew', ownerId: 'alice' })
+        const groupId = response.body.groupId
+        await Post('/add-group-user', { groupId: groupId, userId: 'bob' })
+        assert.deepStrictEqual(await Emit(bob, 'delete-group', { groupId: groupId }), { success: false, code: 'no-permission' })
+        const deleted = WaitFor(bob, 'delete-group')
+        assert.deepStrictEqual(await Emit(alice, 'delete-group', { groupId: groupId }), { success: true })
+        assert.strictEqual((await deleted).groupId, groupId)
+        assert.strictEqual((await Get('/group?groupId=' + groupId)).status, 404)
+        assert.strictEqual((await Post('/delete-group', { groupId: groupId })).status, 404)
+    })
+    it('lets players report messages which they can see only', async () => {
+        assert.strictEqual((await Post('/create-channel', { channelId: 'hall', title: 'Hall' })).status, 200)
+        const alice = await Join('alice', 'Alice')
+        const bob = await Join('bob', 'Bob')
+        const carol = await Join('carol', 'Carol')
+        assert.deepStrictEqual(await Emit(alice, 'join-channel', { channelId: 'hall' }), { success: true })
+        assert.deepStrictEqual(await Emit(carol, 'join-channel', { channelId: 'hall' }), { success: true })
+        const received = WaitFor(carol, 'channel')
+        assert.deepStrictEqual(await Emit(alice, 'channel', { channelId: 'hall', msg: 'Members only' }), { success: true })
+        const messageId = (await received).messageId
+        // Bob has not joined the channel
+        assert.deepStrictEqual(await Emit(bob, 'report-message', { messageId: messageId }), { success: false, code: 'message-not-found' })
+        assert.deepStrictEqual(await Emit(carol, 'report-message', { messageId: messageId }), { success: true })
+    })
+
+    it('exports group transcripts and user data, and forgets users', async () => {
+        const alice = await Join('alice', 'Alice')
+        const dave = await Join('dave', 'Dave')
+        const groupId = (await Post('/create-group', { title: 'Archive', ownerId: 'dave' })).body.groupId
+        await Post('/add-group-user', { groupId: groupId, userId: 'alice' })
+        await Emit(dave, 'group', { groupId: groupId, msg: 'Hello, "everyone"' })
+        await Emit(alice, 'group', { groupId: groupId, msg: 'Hi Dave' })
+        const transcript = await Get('/group-transcript?groupId=' + groupId)
+        assert.deepStrictEqual(transcript.body.list.map((message: any) => [message.userId, message.name, message.msg]), [['dave', 'Dave', 'Hello, "everyone"'], ['alice', 'Alice', 'Hi Dave']])
+        const csv = await Get('/group-transcript?groupId=' + groupId + '&format=csv')
+        assert.strictEqual(csv.body.split('\r\n')[0], 'messageId,userId,name,msg,rawMsg,replyToId,editedAt,deletedAt,createdAt')
+        assert.ok(csv.body.indexOf(',dave,Dave,"Hello, ""everyone""",') > 0)
+        assert.deepStrictEqual((await Get('/group-transcript?groupId=' + groupId + '&to=0')).body.list, [])
+        assert.strictEqual((await Get('/group-transcript?groupId=' + groupId + '&from=yesterday')).status, 400)
+        const data = await Get('/user-data?userId=dave')
+        assert.strictEqual(data.body.user.name, 'Dave')
+        assert.deepStrictEqual(data.body.groups.map((group: any) => group.groupId), [groupId])
+        assert.deepStrictEqual(data.body.messages.map((message: any) => message.msg), ['Hello, "everyone"'])
+        assert.deepStrictEqual(await Emit(alice, 'report-message', { messageId: data.body.messages[0].messageId }), { success: true })
+        await Emit(dave, 'whisper', { targetName: 'Alice', msg: 'Bye' })
+        // Forgotten user is kicked out, and the owner's role is handed over
+        const disconnected = WaitFor(dave, 'disconnect')
+        const roleChanged = WaitFor(alice, 'group-role', data => data.groupId == groupId)
+        assert.strictEqual((await Post('/forget-user', { userId: 'dave' })).status, 200)
+        await disconnected
+        assert.deepStrictEqual(await roleChanged, { groupId: groupId, userId: 'alice', role: 2 })
+        assert.strictEqual((await Get('/user-data?userId=dave')).status, 404)
+        const forgotten = await Get('/group-transcript?groupId=' + groupId)
+        assert.deepStrictEqual(forgotten.body.list.map((message: any) => [message.userId, message.name, message.msg]), [['', null, ''], ['alice', 'Alice', 'Hi Dave']])
+        // Forgotten user can't be punished, and is not listed as a whisper sender
+        const report = (await Get('/reports')).body.list.find((report: any) => report.groupId == groupId)
+        assert.strictEqual((await Post('/resolve-report', { reportId: report.reportId, action: 'ban' })).status, 409)
+        assert.strictEqual((await Post('/resolve-report', { reportId: report.reportId })).status, 200)
+        const unread = WaitFor(alice, 'unread-list')
+        await Emit(alice, 'unread-list', {})
+        assert.ok(!(await unread).list.some((item: any) => item.channel == 'whisper' && item.userId == ''))
+    })
+
+    it('keeps bans and revokes tokens of forgotten users who are created again', async () => {
+        const response = await Post('/add-user', { userId: 'grace', name: 'Grace' })
+        await Post('/ban-user', { userId: 'grace', reason: 'Spam' })
+        assert.strictEqual((await Post('/forget-user', { userId: 'grace' })).status, 200)
+        // Token times are in seconds
+        await new Promise(resolve => setTimeout(resolve, 1000))
+        const recreated = await Post('/add-user', { userId: 'grace', name: 'Grace' })
+        assert.strictEqual((await WaitFor(Connect(recreated.body.token), 'connect_error')).message, 'banned')
+        await Post('/unban-user', { userId: 'grace' })
+        assert.strictEqual((await WaitFor(Connect(response.body.token), 'connect_error')).message, 'token-revoked')
+        await WaitFor(Connect(recreated.body.token), 'unread-list')
+    })
+
+    it('resumes sessions with group messages and whispers which were missed while disconnected', async () => {
+        const alice = await Join('alice', 'Alice')
+        const response = await Post('/add-user', { userId: 'bob', name: 'Bob' })
+        const bob = Connect(response.body.token)
+        const session = await WaitFor(bob, 'session')
+        assert.strictEqual(session.resumed, false)
+        const groupId = (await Post('/create-group', { title: 'Raid', ownerId: 'alice' })).body.groupId
+        await Post('/add-group-user', { groupId: groupId, userId: 'bob' })
+        const received = WaitFor(bob, 'group')
+        await Emit(alice, 'group', { groupId: groupId, msg: 'Seen' })
+        const seen = await received
+        const offline = WaitFor(alice, 'presence', data => data.userId == 'bob' && data.status == 'offline')
+        bob.disconnect()
+        await offline
+        await Emit(alice, 'group', { groupId: groupId, msg: 'Missed' })
+        assert.deepStrictEqual(await Emit(alice, 'whisper-by-id', { targetUserId: 'bob', msg: 'Psst' }), { success: true })
+        const resumed = Resume(session.resumeToken, seen.messageId)
+        const groupMessages = Collect(resumed, 'group')
+        const whispers = Collect(resumed, 'whisper')
+        const groupList = WaitFor(resumed, 'group-list')
+        assert.strictEqual((await WaitFor(resumed, 'session')).resumed, true)
+        assert.ok((await groupList).list.some((group: any) => group.groupId == groupId))
+        assert.deepStrictEqual(groupMessages.map(message => message.msg), ['Missed'])
+        assert.deepStrictEqual(whispers.map(message => message.msg), ['Psst'])
+        // Resume tokens can be used once
+        const error = await WaitFor(Resume(session.resumeToken, seen.messageId), 'connect_error')
+        assert.strictEqual(error.message, 'token-revoked')
+        // Tokens from `/add-user` are not resume tokens
+        assert.strictEqual((await WaitFor(Resume(response.body.token, 0), 'connect_error')).message, 'invalid-token')
+    })
+
+    it('rejects admin requests with invalid data, and replies errors of admin routes', async () => {
+        assert.strictEqual((await Post('/mute-user', { userId: 5 })).status, 400)
+        assert.strictEqual((await Post('/ban-user', { userId: 'bob', duration: '60' })).status, 400)
+        assert.strictEqual((await Post('/add-group-user', { groupId: 'unknown', userId: 'bob', role: 'owner' })).status, 400)
+        assert.strictEqual((await Post('/add-profanity-words', { words: ['ok', ''] })).status, 400)
+        assert.strictEqual((await Post('/system-message', { msg: 'a'.repeat(501) })).status, 400)
+        assert.strictEqual((await Get('/report?reportId=abc')).status, 400)
+        assert.strictEqual((await Get('/group')).status, 400)
+        const storage = new MemoryChatStorage()
+        storage.getGroups = async () => {
+            throw new Error('Database is down')
+        }
+        const otherServer = CreateChatServer(LoadChatServerConfig({
+            SERVER_PORT: '0',
+            SECRET_KEYS: JSON.stringify([SECRET_KEY]),
+            CLUSTER_ADAPTER: 'memory',
+            LOG_REQUESTS: '0',
+            LOG_LEVEL: 'error',
+        }), {
+            storage: storage,
+        })
+        const port = await otherServer.start()
+        const otherUrl = url
+        url = 'http://127.0.0.1:' + port
+        try {
+            assert.strictEqual((await Get('/groups')).status, 500)
+            assert.ok((await Get('/metrics')).body.indexOf('chat_route_errors_total{path="/groups"} 1') >= 0)
+        } finally {
+            url = otherUrl
+            await otherServer.stop()
+        }
+    })
+
+    it('delivers group messages and whispers to players on another instance', async () => {
+        // Two instances which share the cluster state and the database
+        const store = new MemoryChatStore()
+        const storage = new MemoryChatStorage()
+        const config = LoadChatServerConfig({
+            SERVER_PORT: '0',
+            SECRET_KEYS: JSON.stringify([SECRET_KEY]),
+            GROUP_USER_ADD_MODE: '0',
+            LOG_REQUESTS: '0',
+            LOG_LEVEL: 'error',
+        })
+        const nodeA = CreateChatServer(config, {
+            adapter: new MemoryChatAdapter(store, 'A'),
+            storage: storage,
+        })
+        const nodeB = CreateChatServer(config, {
+            adapter: new MemoryChatAdapter(store, 'B'),
+            storage: storage,
+        })
+        const urlA = 'http://127.0.0.1:' + await nodeA.start()
+        const urlB = 'http://127.0.0.1:' + await nodeB.start()
+        const otherUrl = url
+        try {
+            url = urlA
+            const erin = await Join('erin', 'Erin')
+            // Token which was issued by A is valid on B
+            const response = await Post('/add-user', { userId: 'frank', name: 'Frank' })
+            url = urlB
+            const frank = Connect(response.body.token)
+            await WaitFor(frank, 'unread-list')
+            url = urlA
+            const groupId = (await Post('/create-group', { title: 'Fellowship', ownerId: 'erin' })).body.groupId
+            assert.strictEqual((await Post('/add-group-user', { groupId: groupId, userId: 'frank' })).status, 200)
+            const groupMessage = WaitFor(frank, 'group')
+            assert.deepStrictEqual(await Emit(erin, 'group', { groupId: groupId, msg: 'Across' }), { success: true })
+            assert.strictEqual((await groupMessage).msg, 'Across')
+            const whisper = WaitFor(frank, 'whisper')
+            assert.deepStrictEqual(await Emit(erin, 'whisper', { targetName: 'Frank', msg: 'By name' }), { success: true })
+            assert.strictEqual((await whisper).msg, 'By name')
+            const whisperById = WaitFor(erin, 'whisper', data => data.userId == 'frank')
+            assert.deepStrictEqual(await Emit(frank, 'whisper-by-id', { targetUserId: 'erin', msg: 'By ID' }), { success: true })
+            assert.strictEqual((await whisperById).msg, 'By ID')
+        } finally {
+            url = otherUrl
+            await nodeA.stop()
+            await nodeB.stop()
+        }
+    })
+
+    it('tells clients to reconnect later when the server is stopping', async () => {
+        const otherServer = CreateChatServer(LoadChatServerConfig({
+            SERVER_PORT: '0',
+            SECRET_KEYS: JSON.stringify([SECRET_KEY]),
+            STORAGE: 'memory',
+            CLUSTER_ADAPTER: 'memory',
+            RESTART_RETRY_AFTER: '3',
+            LOG_REQUESTS: '0',
+            LOG_LEVEL: 'error',
+        }))
+        const port = await otherServer.start()
+        const otherUrl = url
+        url = 'http://127.0.0.1:' + port
+        try {
+            const alice = await Join('alice', 'Alice')
+            const restarting = WaitFor(alice, 'server-restarting')
+            const disconnected = WaitFor(alice, 'disconnect')
+            await otherServer.stop()
+            assert.deepStrictEqual(await restarting, { retryAfter: 3000 })
+            assert.strictEqual(await disconnected, 'io server disconnect')
+        } finally {
+            url = otherUrl
+        }
+    })
+})
@@ -0,0 +1,143 @@
+import assert from 'assert'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { IWebhookDeliveryRecord, IWebhookDeliveryStorage } from '../src/storage/storage'
+import { GetWebhookRetryDelay, SignWebhookPayload, WebhookDispatcher } from '../src/webhook'
+import { ChatLogger } from '../src/logger'
+
+// Keeps deliveries in memory, so the test can inspect them
+function CreateFakeStorage() {
+    const deliveries: Array<IWebhookDeliveryRecord> = []
+    const storage: IWebhookDeliveryStorage = {
+        createWebhookDelivery: async (data) => {
+            const now = new Date()
+            const delivery: IWebhookDeliveryRecord = {
+                deliveryId: deliveries.length + 1,
+                url: data.url,
+                event: data.event,
+                payload: data.payload,
+                attempts: 0,
+                lastError: null,
+                nextAttemptAt: now,
+                deliveredAt: null,
+                failedAt: null,
+                createdAt: now,
+            }
+            deliveries.push(delivery)
+            return { ...delivery }
+        },
+        getDueWebhookDeliveries: async (now, take) => {
+            return deliveries.filter(delivery => !delivery.deliveredAt && !delivery.failedAt && delivery.nextAttemptAt <= now).slice(0, take).map(delivery => Object.assign({}, delivery))
+        },
+        claimWebhookDelivery: async (deliveryId, nextAttemptAt, claimUntil) => {
+            const delivery = deliveries.find(delivery => delivery.deliveryId == deliveryId && delivery.nextAttemptAt.getTime() == nextAttemptAt.getTime())
+            if (!delivery) {
+                return false
+            }
+            delivery.nextAttemptAt = claimUntil
+            return true
+        },
+        updateWebhookDelivery: async (deliveryId, data) => {
+            const delivery = deliveries.find(delivery => delivery.deliveryId == deliveryId)
+            Object.assign(delivery, data)
+        },
+    }
+    return { deliveries: deliveries, storage: storage }
+}
+
+describe('WebhookDispatcher', () => {
+    let server: http.Server
+    let url: string
+    let statusCode: number
+    let requests: Array<{ headers: http.IncomingHttpHeaders, body: string }>
+
+    beforeEach((done) => {
+        statusCode = 200
+        requests = []
+        server = http.createServer((req, res) => {
+            let body = ''
+            req.on('data', chunk => body += chunk)
+            req.on('end', () => {
+                requests.push({ headers: req.headers, body: body })
+                res.statusCode = statusCode
+                res.end()
+            })
+        })
+        server.listen(0, '127.0.0.1', () => {
+            url = 'http://127.0.0.1:' + (server.address() as AddressInfo).port + '/hook'
+            done()
+        })
+    })
+
+    afterEach((done) => {
+        server.close(() => done())
+    })
+
+    function CreateDispatcher(storage: IWebhookDeliveryStorage) {
+        return new WebhookDispatcher(storage, {
+            urls: [url],
+            secret: 'secret',
+            maxAttempts: 2,
+            retryDelayMs: 0,
+            maxRetryDelayMs: 0,
+            requestTimeoutMs: 1000,
+            batchSize: 10,
+        })
+    }
+
+    it('doubles retry delay until it reaches the max delay', () => {
+        assert.strictEqual(GetWebhookRetryDelay(1, 1000, 5000), 1000)
+        assert.strictEqual(GetWebhookRetryDelay(2, 1000, 5000), 2000)
+        assert.strictEqual(GetWebhookRetryDelay(3, 1000, 5000), 4000)
+        assert.strictEqual(GetWebhookRetryDelay(4, 1000, 5000), 5000)
+    })
+
+    it('sends signed payloads and marks them as delivered', async () => {
+        const fake = CreateFakeStorage()
+        const dispatcher = CreateDispatcher(fake.storage)
+        await dispatcher.enqueue('group-join', { groupId: 'group1', userId: 'user1' })
+        await dispatcher.process()
+        assert.strictEqual(requests.length, 1)
+        const request = requests[0]
+        const payload = JSON.parse(request.body)
+        assert.strictEqual(payload.event, 'group-join')
+        assert.deepStrictEqual(payload.data, { groupId: 'group1', userId: 'user1' })
+        assert.strictEqual(request.headers['x-webhook-event'], 'group-join')
+        assert.strictEqual(request.headers['x-webhook-signature'], SignWebhookPayload('secret', Number(request.headers['x-webhook-timestamp']), request.body))
+        assert.ok(fake.deliveries[0].deliveredAt)
+        assert.strictEqual(fake.deliveries[0].attempts, 1)
+    })
+
+    it('refuses to send unsigned payloads when the secret is empty', async () => {
+        const fake = CreateFakeStorage()
+        const lines: Array<string> = []
+        const dispatcher = new WebhookDispatcher(fake.storage, {
+            urls: [url],
+            secret: '',
+            maxAttempts: 2,
+            retryDelayMs: 0,
+            maxRetryDelayMs: 0,
+            requestTimeoutMs: 1000,
+            batchSize: 10,
+        }, new ChatLogger('warn', {}, line => lines.push(line)))
+        assert.strictEqual(dispatcher.enabled, false)
+        assert.strictEqual(JSON.parse(lines[0]).level, 'warn')
+        await dispatcher.enqueue('group-join', { groupId: 'group1', userId: 'user1' })
+        assert.strictEqual(fake.deliveries.length, 0)
+    })
+
+    it('retries failed deliveries until max attempts', async () => {
+        statusCode = 500
+        const fake = CreateFakeStorage()
+        const dispatcher = CreateDispatcher(fake.storage)
+        await dispatcher.enqueue('group-create', { groupId: 'group1' })
+        await dispatcher.process()
+        assert.strictEqual(fake.deliveries[0].failedAt, null)
+        assert.strictEqual(fake.deliveries[0].lastError, 'Responded with status 500')
+        await dispatcher.process()
+        assert.ok(fake.deliveries[0].failedAt)
+        await dispatcher.process()
+        assert.strictEqual(requests.length, 2)
+        assert.strictEqual(fake.deliveries[0].attempts, 2)
+    })
+})